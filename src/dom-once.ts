@@ -6,8 +6,23 @@
  * Public API:
  * - querySelectorOnce: query and mark elements with a once id
  * - doOnce: run a callback once per element and mark with a once id
- * - removeOnce: remove a once id from elements
+ * - doOnceAsync: await an async callback once per element and mark on success
+ * - doTimes / getOnceCount: run a callback up to N times per element and read the run count
+ * - removeOnce: remove a once id from elements (running any registered disposer)
  * - findOnce: find elements marked with a once id
+ * - disposeOnce: run disposers and remove a once id from all marked elements in a context
+ * - inspectOnce / getOnceIds: list once ids in a context or on an element
+ * - watchOnce: run doOnce now and again for matching elements inserted later
+ * - watchDetachOnce: run a callback when elements marked with a once id leave the DOM
+ * - doOnceWhenVisible: run a callback once per element when it first becomes visible
+ * - onOnce: run a handler on the first occurrence of an event per element (delegated)
+ * - defineBehavior / removeBehavior: register or unregister a named attach/detach behavior
+ * - attachBehaviors / detachBehaviors: run registered behaviors within a context
+ * - attributeStore / memoryStore: built-in OnceStore implementations
+ * - createOnce: create an instance with bound functions sharing default options
+ * - setDebug: log console warnings for common mistakes
+ * - addOnceHooks / removeOnceHooks / performanceHooks: instrumentation hooks
+ * - runOnce / runOnceFor: run a function once globally or per object and memoize its result
  * - version: current library version
  */
 
@@ -23,6 +38,264 @@ export type DataAttribute = `data-${string}`;
 
 /** Once ID string (alphanumeric, underscore, hyphen allowed). */
 export type OnceId = string;
+
+/** Cleanup function a doOnce callback may return; invoked when the once id is removed. */
+export type OnceDisposer = () => void;
+
+/** Version of a once id (letters, numbers, underscores, hyphens, dots), stored as an `id@version` token. */
+export type OnceVersion = string | number;
+
+/** Reason passed to behavior detach callbacks ('unload' also removes the once id). */
+export type BehaviorDetachTrigger = 'unload' | 'move' | 'serialize';
+
+/** Behavior definition registered with defineBehavior. */
+export interface OnceBehavior<T extends Element = Element> {
+  /** CSS selector for elements the behavior applies to. */
+  selector: string;
+  /** Called once per matching element; may return a disposer. */
+  attach: (
+    element: T,
+    context: Document | DocumentFragment | Element,
+  ) => void | OnceDisposer;
+  /** Called for each attached element when the behavior is detached. */
+  detach?: (
+    element: T,
+    context: Document | DocumentFragment | Element,
+    trigger: BehaviorDetachTrigger,
+  ) => void;
+  /** Once ID to mark elements with (defaults to the behavior name). */
+  onceId?: OnceId;
+  /** Behaviors that must run first, when defined (ordering only). */
+  after?: string[];
+  /** Behaviors that must run first and whose once ids an element must carry to be attached. */
+  requires?: string[];
+}
+
+/** Built-in backends for storing once markers ('attribute' writes the data attribute, 'memory' keeps them in a WeakMap). */
+export type OnceStoreKind = 'attribute' | 'memory';
+
+/** Backend that persists which once IDs each element is marked with (class names, properties, framework metadata, ...). */
+export interface OnceStore {
+  /** Returns true if the element is marked with the once ID. */
+  has(element: Element, onceId: OnceId): boolean;
+  /** Marks the element with the once ID (no-op if already marked). */
+  add(element: Element, onceId: OnceId): void;
+  /** Removes the once ID from the element (no-op if not marked). */
+  remove(element: Element, onceId: OnceId): void;
+  /** Returns every once ID the element is marked with. */
+  list(element: Element): OnceId[];
+  /** Returns descendants of the context marked with the once ID, in document order. */
+  query<T extends Element>(
+    context: Document | DocumentFragment | Element,
+    onceId: OnceId,
+  ): T[];
+}
+
+/** Options shared by functions that read or write once markers. */
+export interface OnceOptions {
+  /** Data attribute name for tracking (default: 'data-dom-once'); also namespaces the memory store. */
+  onceAttribute?: DataAttribute;
+  /** Context to query within (default: document). */
+  context?: Document | DocumentFragment | Element;
+  /** Where once markers are stored: a built-in kind or a custom OnceStore (default: 'attribute'). */
+  store?: OnceStoreKind | OnceStore;
+  /** Also query inside open shadow roots under the context, recursively (default: false). */
+  pierceShadow?: boolean;
+  /** Also include elements assigned to the slots of queried shadow roots (default: false). */
+  includeSlotted?: boolean;
+  /** Also query the documents of same-origin iframes under the context, recursively (default: false). */
+  frames?: boolean;
+  /** Version of the once id; elements marked with another version count as unprocessed. findOnce and removeOnce also accept '*' for any version. */
+  version?: OnceVersion;
+  /** Called before an element marked with another version of the once id is processed again. */
+  migrate?: (element: Element, previousVersion: string | undefined) => void;
+  /** Milliseconds until marks made by this call expire; expired elements count as unprocessed. */
+  ttl?: number;
+  /** Clock used to record and check mark expiry, in milliseconds (default: Date.now). */
+  now?: () => number;
+  /** Instrumentation hooks for this call, in addition to hooks added with addOnceHooks. */
+  hooks?: OnceHooks;
+  /** Stops the call (throwing the abort reason, an AbortError by default) and disconnects watchers when aborted. */
+  signal?: AbortSignal;
+  /** Dispatch bubbling CustomEvents on elements as they are marked or unmarked, optionally with custom names (default: false). */
+  emitEvents?: boolean | OnceEventNames;
+}
+
+/** Options for functions that run callbacks per element. */
+export interface DoOnceOptions extends OnceOptions {
+  /** Keep processing after a callback throws, then throw an AggregateError (default: false). */
+  continueOnError?: boolean;
+  /** When `signal` aborts, run the disposers of elements processed under it and remove their once id (default: false). */
+  disposeOnAbort?: boolean;
+}
+
+/** Options for setDebug. */
+export interface DebugOptions {
+  /** Warn when an element carries more than this many once ids (default: 10). */
+  maxOnceIds?: number;
+}
+
+/** Checks run by debug mode; only created by setDebug so they can be tree-shaken. */
+interface OnceDiagnostics {
+  selection(
+    operation: string,
+    onceId: OnceId,
+    selector: unknown,
+    matched: number,
+  ): void;
+  nonElements(skipped: number): void;
+  callback(onceId: OnceId, callback: (...args: never[]) => unknown): void;
+  marked(markers: OnceStore, element: Element): void;
+}
+
+/** Function that emitted a hook. */
+export type OnceOperation =
+  'querySelectorOnce' | 'doOnce' | 'doOnceAsync' | 'doTimes' | 'removeOnce';
+
+/** Details passed to instrumentation hooks. */
+export interface OnceHookContext {
+  operation: OnceOperation;
+  onceId: OnceId;
+  element: Element;
+}
+
+/** Instrumentation hooks invoked per element by querySelectorOnce, doOnce, doOnceAsync, doTimes, and removeOnce. */
+export interface OnceHooks {
+  /** Before an unmarked element is processed (its callback runs) and marked. */
+  onBeforeProcess?: (context: OnceHookContext) => void;
+  /** After an element was processed and marked. */
+  onProcessed?: (context: OnceHookContext) => void;
+  /** When a matched element is left unchanged (already marked, or for removeOnce, not marked). */
+  onSkipped?: (context: OnceHookContext) => void;
+  /** After removeOnce removed the once id from an element. */
+  onRemoved?: (context: OnceHookContext) => void;
+  /** When a callback, migrate, or disposer threw for an element. */
+  onError?: (context: OnceHookContext, error: unknown) => void;
+}
+
+/** Option that makes querySelectorOnce, doOnce, and removeOnce return an OnceResult. */
+export interface DetailedOption {
+  /** Return an OnceResult instead of the changed elements; failures are reported instead of thrown. */
+  detailed: true;
+}
+
+/** An element whose callback (or disposer) threw in detailed mode, with the error. */
+export interface OnceFailure<T extends Element = Element> {
+  element: T;
+  error: unknown;
+}
+
+/** Outcome of a call made with `detailed: true`. */
+export interface OnceResult<T extends Element = Element> {
+  /** Elements that were changed: marked, or for removeOnce, unmarked. */
+  processed: T[];
+  /** Matched elements left unchanged: already marked, or for removeOnce, not marked. */
+  skipped: T[];
+  /** Matched elements whose callback (or disposer) threw, with the error. */
+  failed: OnceFailure<T>[];
+  /** Number of elements the selector matched. */
+  matched: number;
+  /** Time the call took, in milliseconds. */
+  durationMs: number;
+}
+
+/** Options for doOnceWhenVisible. */
+export interface VisibleOnceOptions extends DoOnceOptions {
+  /** Margin around the viewport, as for IntersectionObserver (default: '0px'). */
+  rootMargin?: string;
+  /** Visible ratio(s) that count as intersecting, as for IntersectionObserver (default: 0). */
+  threshold?: number | number[];
+}
+
+/** How a scheduled doOnce call yields between batches ('idle' uses idle periods, 'chunked' yields to other tasks). */
+export type OnceSchedule = 'idle' | 'chunked';
+
+/** Options for doOnce calls that process elements in time-sliced batches. */
+export interface ScheduledOnceOptions extends DoOnceOptions {
+  /** Yield strategy between batches; the call returns a promise of the processed elements. */
+  schedule: OnceSchedule;
+}
+
+/** Custom names for the events dispatched with the emitEvents option. */
+export interface OnceEventNames {
+  /** Dispatched on each newly marked element (default: 'dom-once:marked'). */
+  marked?: string;
+  /** Dispatched on each element a once id was removed from (default: 'dom-once:unmarked'). */
+  unmarked?: string;
+}
+
+/** Detail of the events dispatched with the emitEvents option. */
+export interface OnceEventDetail {
+  onceId: OnceId;
+  /** The attribute holding the mark: the store's attribute, or the onceAttribute option for other stores. */
+  attribute: DataAttribute;
+}
+
+declare global {
+  interface DocumentEventMap {
+    'dom-once:marked': CustomEvent<OnceEventDetail>;
+    'dom-once:unmarked': CustomEvent<OnceEventDetail>;
+  }
+
+  interface ElementEventMap {
+    'dom-once:marked': CustomEvent<OnceEventDetail>;
+    'dom-once:unmarked': CustomEvent<OnceEventDetail>;
+  }
+}
+
+/** Handle returned by observer-based functions to stop observing. */
+export interface OnceWatcher {
+  /** Stops observing; pending batched mutations are discarded. */
+  disconnect(): void;
+}
+
+/** Functions bound to shared default options, returned by createOnce. */
+export interface OnceInstance {
+  querySelectorOnce: typeof querySelectorOnce;
+  doOnce: typeof doOnce;
+  doOnceAsync: typeof doOnceAsync;
+  doTimes: typeof doTimes;
+  getOnceCount: typeof getOnceCount;
+  removeOnce: typeof removeOnce;
+  findOnce: typeof findOnce;
+  disposeOnce: typeof disposeOnce;
+  inspectOnce: typeof inspectOnce;
+  getOnceIds: typeof getOnceIds;
+  watchOnce: typeof watchOnce;
+  watchDetachOnce: typeof watchDetachOnce;
+  doOnceWhenVisible: typeof doOnceWhenVisible;
+  onOnce: typeof onOnce;
+  /** Registers a behavior with this instance only. */
+  defineBehavior: typeof defineBehavior;
+  removeBehavior: typeof removeBehavior;
+  /** Attaches the behaviors defined on this instance. */
+  attachBehaviors: typeof attachBehaviors;
+  detachBehaviors: typeof detachBehaviors;
+}
+
+/** Numbers recorded beside a mark: its expiry timestamp or its doTimes run count. */
+type MarkRecord = 'expires' | 'count';
+
+/** IntersectionObserver shared by doOnceWhenVisible calls with the same options. */
+interface SharedIntersectionObserver {
+  observer: IntersectionObserver;
+  /** Handlers waiting for each observed element to become visible. */
+  targets: Map<Element, Set<(element: Element) => void>>;
+}
+
+/** Behavior as stored in the registry, with its once ID resolved. */
+type RegisteredBehavior = OnceBehavior & { onceId: OnceId };
+
+/** Behaviors by name, in registration order (global, or per createOnce instance). */
+type BehaviorRegistry = Map<string, RegisteredBehavior>;
+
+/** Elements processed under an abort signal with `disposeOnAbort`, for one once key. */
+interface AbortDisposal {
+  onceId: OnceId;
+  /** Options of the first call that registered an element, passed on to removeOnce. */
+  options: DoOnceOptions;
+  elements: Set<Element>;
+}
 // #endregion TYPES
 
 // #region CONSTANTS
@@ -32,16 +305,107 @@ export type OnceId = string;
 /** Default data attribute name for tracking once IDs. */
 const ONCE_ATTRIBUTE_NAME: DataAttribute = 'data-dom-once';
 
+/** Node type of Element nodes (Node.ELEMENT_NODE), realm-independent. */
+const ELEMENT_NODE = 1;
+
+/** Node type of DocumentFragment and ShadowRoot nodes (Node.DOCUMENT_FRAGMENT_NODE), realm-independent. */
+const DOCUMENT_FRAGMENT_NODE = 11;
+
 /** Regular expression to match whitespace. */
 const WHITESPACE_PATTERN: RegExp = /\s+/;
 
 /** Regular expression to match a valid once ID (alphanumeric, underscore, hyphen). */
 const ONCE_ID_PATTERN: RegExp = /^[a-zA-Z0-9_-]+$/;
 
+/** Regular expression to match a valid once ID version (alphanumeric, underscore, hyphen, dot). */
+const VERSION_PATTERN: RegExp = /^[a-zA-Z0-9_.-]+$/;
+
+/** Separator between a once ID and its version in stored tokens (e.g., 'init@2'). */
+const VERSION_SEPARATOR = '@';
+
+/** Version wildcard accepted by findOnce and removeOnce. */
+const ANY_VERSION = '*';
+
+/** Time budget of a scheduled batch when the scheduler provides no idle deadline, in milliseconds. */
+const SCHEDULE_SLICE_MS = 5;
+
+/** Default names of the events dispatched with the emitEvents option. */
+const ONCE_EVENT_NAMES: Required<OnceEventNames> = {
+  marked: 'dom-once:marked',
+  unmarked: 'dom-once:unmarked',
+};
+
 /** Regular expression to match a valid data attribute (starts with 'data-', allows alphanumeric, dot, colon, hyphen). */
 const DATA_ATTRIBUTE_PATTERN: RegExp = /^data-[a-z0-9.:-]+$/;
 // #endregion CONSTANTS
 
+// #region STATE
+// =============================================================================
+// STATE — 🗃️
+// =============================================================================
+/** Attribute stores by attribute name, cached so state keyed by store stays stable. */
+const attributeStores: Map<DataAttribute, OnceStore> = new Map();
+
+/** Memory stores used by the 'memory' store option, by attribute name. */
+const sharedMemoryStores: Map<DataAttribute, OnceStore> = new Map();
+
+/** Attribute names of attribute stores, used to keep mark expiries in a companion attribute. */
+const onceStoreAttributes: WeakMap<OnceStore, DataAttribute> = new WeakMap();
+
+/** Mark records for stores without a companion attribute, keyed by record and once key, per element. */
+const onceMarkRecords: WeakMap<Element, Map<string, number>> = new WeakMap();
+
+/** Unique numeric ids for stores, used to namespace per-element state. */
+const onceStoreIds: WeakMap<OnceStore, number> = new WeakMap();
+let nextOnceStoreId = 0;
+
+/** Once keys (store + once ID) with an async callback still pending, per element. */
+const inFlightOnceKeys: WeakMap<Element, Set<string>> = new WeakMap();
+
+/** Disposers returned by doOnce callbacks, keyed by once key, per element. */
+const onceDisposers: WeakMap<
+  Element,
+  Map<string, OnceDisposer>
+> = new WeakMap();
+
+/** Debug diagnostics installed by setDebug, if enabled. */
+let diagnostics: OnceDiagnostics | undefined;
+
+/** Depth of internal calls for which empty selections are expected and not reported. */
+let quietSelections = 0;
+
+/** IntersectionObservers used by doOnceWhenVisible, by serialized rootMargin and threshold. */
+const intersectionObservers: Map<string, SharedIntersectionObserver> =
+  new Map();
+
+/** Hooks added with addOnceHooks, in registration order. */
+const globalHooks: Set<OnceHooks> = new Set();
+
+/** Behaviors registered with defineBehavior, in registration order (createOnce instances keep their own). */
+const behaviorRegistry: BehaviorRegistry = new Map();
+
+/** Memoized results of runOnce/runOnceFor on objects other than elements, by once ID, per target. */
+const runOnceResults: WeakMap<
+  object,
+  Map<string, { result: unknown }>
+> = new WeakMap();
+
+/** Memoized results of runOnceFor on elements, by once key; they only count while the element is marked. */
+const elementRunOnceResults: WeakMap<
+  object,
+  Map<string, { result: unknown }>
+> = new WeakMap();
+
+/** Once IDs whose runOnce/runOnceFor function is currently running, per target object. */
+const runOnceInFlight: WeakMap<object, Set<OnceId>> = new WeakMap();
+
+/** Elements to dispose when a signal aborts, by once key, per signal (one abort listener each). */
+const abortDisposals: WeakMap<
+  AbortSignal,
+  Map<string, AbortDisposal>
+> = new WeakMap();
+// #endregion STATE
+
 // #region PRIVATE_HELPERS
 // =============================================================================
 // PRIVATE_HELPERS — 🔒
@@ -79,7 +443,7 @@ function assertValidSelectorTypes(
   | ArrayLike<Element> {
   if (
     typeof selector !== 'string' &&
-    !(selector instanceof Element) &&
+    !isElement(selector) &&
     !isIterable(selector) &&
     !isArrayLike(selector)
   ) {
@@ -89,7 +453,7 @@ function assertValidSelectorTypes(
   }
 }
 
-/** Validates that a context has a querySelectorAll method. */
+/** Validates that a context (Document, DocumentFragment, ShadowRoot, or Element) has a querySelectorAll method. */
 function assertValidContext(
   context: unknown,
 ): asserts context is Document | DocumentFragment | Element {
@@ -100,460 +464,3589 @@ function assertValidContext(
     typeof context.querySelectorAll !== 'function'
   ) {
     throw new TypeError(
-      'context must be a Document, DocumentFragment, or Element',
+      'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+    );
+  }
+}
+
+/**
+ * Validates a version option and returns it as a string (undefined when unversioned).
+ * The '*' wildcard is only accepted when `allowAny` is set.
+ */
+function resolveVersion(
+  version: OnceVersion | undefined,
+  allowAny = false,
+): string | undefined {
+  if (version === undefined) return undefined;
+  const value = String(version);
+  if (value === ANY_VERSION && allowAny) return value;
+  if (
+    (typeof version !== 'string' && typeof version !== 'number') ||
+    !VERSION_PATTERN.test(value)
+  ) {
+    throw new Error(
+      `Invalid version: "${value}". Must contain only letters, numbers, underscores, hyphens, and dots`,
     );
   }
+  return value;
+}
+
+/** Builds the token stored for a once ID and version ('id' or 'id@version'). */
+function getOnceToken(onceId: OnceId, version: string | undefined): string {
+  if (version === undefined) return onceId;
+  return `${onceId}${VERSION_SEPARATOR}${version}`;
 }
 
-/** Adds a once ID to an element's data attribute (space-separated). */
-function addOnceAttributeValue(
+/** Returns the version part of a stored token, or undefined for an unversioned token. */
+function getTokenVersion(token: string): string | undefined {
+  const index = token.indexOf(VERSION_SEPARATOR);
+  return index === -1 ? undefined : token.slice(index + 1);
+}
+
+/** Lists the tokens for any version of a once ID stored on an element. */
+function listVersionTokens(
+  markers: OnceStore,
   element: Element,
-  onceId: string,
-  onceAttribute: DataAttribute,
-): void {
-  const value = element.getAttribute(onceAttribute);
-  const ids = value
-    ? value
-        .trim()
-        .split(WHITESPACE_PATTERN)
-        .filter((s) => s.length > 0)
-    : [];
-  if (ids.includes(onceId)) return;
-  ids.push(onceId);
-  element.setAttribute(onceAttribute, ids.join(' '));
-}
-
-/** Removes a once ID from an element's data attribute (removes attribute if empty). */
-function removeOnceAttributeValue(
+  onceId: OnceId,
+): string[] {
+  const prefix = `${onceId}${VERSION_SEPARATOR}`;
+  return markers
+    .list(element)
+    .filter((token) => token === onceId || token.startsWith(prefix));
+}
+
+/** Returns the elements under a root marked with any version of a once ID (or the unversioned ID). */
+function queryAnyVersion<T extends Element>(
+  markers: OnceStore,
+  root: Document | DocumentFragment | Element,
+  onceId: OnceId,
+): T[] {
+  // Stores can only query exact tokens; the attribute store can still narrow by its attribute
+  const attribute = onceStoreAttributes.get(markers);
+  const selector =
+    attribute ?
+      `[${attribute}~="${onceId}"], [${attribute}*="${onceId}@"]`
+    : '*';
+  return Array.from(root.querySelectorAll<T>(selector)).filter(
+    (element) => listVersionTokens(markers, element, onceId).length > 0,
+  );
+}
+
+/**
+ * Prepares an unmarked element for marking with a token. An expired mark for the token has its
+ * disposer run. For versioned tokens, the disposers registered for other versions of the once ID
+ * run, then the migrate callback. Returns the old version tokens, to be replaced by `markToken`
+ * once processing succeeds.
+ */
+function prepareMark(
+  markers: OnceStore,
   element: Element,
-  onceId: string,
-  onceAttribute: DataAttribute,
+  onceId: OnceId,
+  token: string,
+  version: string | undefined,
+  migrate: OnceOptions['migrate'],
+): string[] {
+  if (markers.has(element, token)) {
+    runDisposer(element, getOnceKey(token, markers));
+  }
+  if (version === undefined) return [];
+
+  const stale = listVersionTokens(markers, element, onceId).filter(
+    (existing) => existing !== token,
+  );
+  if (stale.length === 0) return stale;
+  for (const existing of stale) {
+    runDisposer(element, getOnceKey(existing, markers));
+  }
+  migrate?.(element, getTokenVersion(stale[0]));
+  return stale;
+}
+
+/** Marks an element with a token and its expiry (if any), replacing the given stale tokens. */
+function markToken(
+  markers: OnceStore,
+  element: Element,
+  token: string,
+  stale: string[],
+  expiresAt: number | undefined,
 ): void {
-  const value = element.getAttribute(onceAttribute);
-  if (!value) return;
+  for (const existing of stale) {
+    markers.remove(element, existing);
+    clearMarkRecords(markers, element, existing);
+  }
+  markers.add(element, token);
+  setMarkRecord(markers, element, 'expires', token, expiresAt);
+  diagnostics?.marked(markers, element);
+}
 
-  const onceIdList = value
-    .trim()
-    .split(WHITESPACE_PATTERN)
-    .filter((s) => s.length > 0);
-  const filtered = onceIdList.filter((id) => id !== onceId);
+/** Parses a companion record attribute value ('token=number' pairs) into a map. */
+function parseMarkRecords(value: string | null): Map<string, number> {
+  const records = new Map<string, number>();
+  for (const entry of parseOnceIds(value)) {
+    const index = entry.lastIndexOf('=');
+    const recorded = Number(entry.slice(index + 1));
+    if (index > 0 && Number.isFinite(recorded)) {
+      records.set(entry.slice(0, index), recorded);
+    }
+  }
+  return records;
+}
 
-  if (filtered.length === 0) {
-    element.removeAttribute(onceAttribute);
-  } else {
-    element.setAttribute(onceAttribute, filtered.join(' '));
+/** Returns the number recorded beside a token on an element (expiry or run count), if any. */
+function getMarkRecord(
+  markers: OnceStore,
+  element: Element,
+  record: MarkRecord,
+  token: string,
+): number | undefined {
+  const onceAttribute = onceStoreAttributes.get(markers);
+  if (onceAttribute) {
+    const value = element.getAttribute(`${onceAttribute}-${record}`);
+    if (value === null) return undefined;
+    return parseMarkRecords(value).get(token);
   }
+  return onceMarkRecords
+    .get(element)
+    ?.get(`${record} ${getOnceKey(token, markers)}`);
 }
 
-/** Checks if an element is marked with a specific once ID. */
-function hasOnceAttributeValue(
+/**
+ * Records (or, with undefined, clears) a number beside a token on an element.
+ * Attribute stores keep records in a companion `<attribute>-<record>` attribute so they survive
+ * serialization; other stores keep them in memory.
+ */
+function setMarkRecord(
+  markers: OnceStore,
   element: Element,
-  onceId: string,
-  onceAttribute: DataAttribute,
-): boolean {
-  const value = element.getAttribute(onceAttribute);
-  if (!value) return false;
+  record: MarkRecord,
+  token: string,
+  recorded: number | undefined,
+): void {
+  const onceAttribute = onceStoreAttributes.get(markers);
+  if (onceAttribute) {
+    const name = `${onceAttribute}-${record}`;
+    const value = element.getAttribute(name);
+    if (value === null && recorded === undefined) return;
+    const records = parseMarkRecords(value);
+    if (recorded === undefined) {
+      records.delete(token);
+    } else {
+      records.set(token, recorded);
+    }
+    if (records.size === 0) {
+      element.removeAttribute(name);
+    } else {
+      const pairs = Array.from(records, ([key, num]) => `${key}=${num}`);
+      element.setAttribute(name, pairs.join(' '));
+    }
+    return;
+  }
 
-  // Use CSS selector matching for better performance
-  return element.matches(`[${onceAttribute}~="${onceId}"]`);
+  const key = `${record} ${getOnceKey(token, markers)}`;
+  let records = onceMarkRecords.get(element);
+  if (recorded === undefined) {
+    records?.delete(key);
+    if (records?.size === 0) onceMarkRecords.delete(element);
+    return;
+  }
+  if (!records) {
+    records = new Map();
+    onceMarkRecords.set(element, records);
+  }
+  records.set(key, recorded);
 }
 
-/** Checks if a value is iterable (has Symbol.iterator). */
-function isIterable(value: unknown): value is Iterable<unknown> {
-  if (typeof Symbol === 'undefined' || typeof Symbol.iterator === 'undefined') {
-    return false;
-  }
+/** Returns the doTimes run count for a token on an element (1 if marked without a count). */
+function getRunCount(
+  markers: OnceStore,
+  element: Element,
+  token: string,
+): number {
+  if (!markers.has(element, token)) return 0;
+  return getMarkRecord(markers, element, 'count', token) ?? 1;
+}
 
-  return (
-    value !== null &&
-    typeof value === 'object' &&
-    typeof (value as { [Symbol.iterator]?: unknown })[Symbol.iterator] ===
-      'function'
-  );
+/** Clears every record kept beside a token on an element. */
+function clearMarkRecords(
+  markers: OnceStore,
+  element: Element,
+  token: string,
+): void {
+  setMarkRecord(markers, element, 'expires', token, undefined);
+  setMarkRecord(markers, element, 'count', token, undefined);
 }
 
-/** Checks if a value is array-like (has numeric length property). */
-function isArrayLike(value: unknown): value is ArrayLike<unknown> {
-  if (value === null || typeof value !== 'object') return false;
-  const maybe = value as { length?: unknown };
-  const len = maybe.length;
+/** Checks whether an element's mark for a token has an expiry that has passed. */
+function isExpired(
+  markers: OnceStore,
+  element: Element,
+  token: string,
+  now: () => number,
+): boolean {
+  const expiresAt = getMarkRecord(markers, element, 'expires', token);
+  return expiresAt !== undefined && expiresAt <= now();
+}
+
+/** Checks whether an element carries an unexpired mark for a token. */
+function isMarked(
+  markers: OnceStore,
+  element: Element,
+  token: string,
+  now: () => number,
+): boolean {
   return (
-    typeof len === 'number' &&
-    Number.isFinite(len) &&
-    len >= 0 &&
-    Math.floor(len) === len
+    markers.has(element, token) && !isExpired(markers, element, token, now)
   );
 }
-// #endregion PRIVATE_HELPERS
 
-// #region PUBLIC_API
-// =============================================================================
-// PUBLIC_API — 🌐
-// =============================================================================
 /**
- * Queries for elements using a CSS selector and marks them with a once id.
- *
- * This function finds elements matching a CSS selector and marks them with a once id
- * to track that they've been processed, returning only elements that weren't already marked.
- *
- * @template T - The type of Element to query for
- * @param {string} onceId - Unique identifier to mark elements with (alphanumeric, underscore, hyphen)
- * @param {string} selector - CSS selector string to query elements
- * @param {Object} [options] - Configuration options
- * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
- * @param {Document | DocumentFragment | Element} [options.context=document] - Context to query within
- * @returns {Element[]} Elements that were newly marked with the once id
- *
- * @example
- * Mark all buttons
- *
- * ```ts
- * const buttons = querySelectorOnce('init', 'button');
- * ```
- *
- * @example
- * With custom attribute and context
- *
- * ```ts
- * const items = querySelectorOnce('processed', '.item', {
- *   onceAttribute: 'data-my-tracker',
- *   context: document.querySelector('#container')
- * });
- * ```
+ * Returns true if processing should skip an element: it carries the token, or, for an
+ * unversioned call, any unexpired version of the once ID (so unversioned callers don't
+ * re-initialize elements that versioned callers processed).
  */
-export function querySelectorOnce<T extends Element>(
+function isProcessed(
+  markers: OnceStore,
+  element: Element,
   onceId: OnceId,
-  selector: string,
-  options: {
-    onceAttribute?: DataAttribute;
-    context?: Document | DocumentFragment | Element;
-  } = {},
-): T[] {
-  const { onceAttribute = ONCE_ATTRIBUTE_NAME, context = document } = options;
+  token: string,
+  now: () => number,
+): boolean {
+  if (token !== onceId) return isMarked(markers, element, token, now);
+  return listVersionTokens(markers, element, onceId).some(
+    (existing) => !isExpired(markers, element, existing, now),
+  );
+}
 
-  assertValidOnceId(onceId);
-  assertValidDataAttribute(onceAttribute);
+/** Computes the expiry timestamp for a mark made now (undefined without a ttl). */
+function getExpiresAt(
+  ttl: number | undefined,
+  now: () => number,
+): number | undefined {
+  if (ttl === undefined) return undefined;
+  return now() + ttl;
+}
 
-  if (typeof selector !== 'string') {
-    throw new TypeError('selector must be a string');
+/** Validates the ttl and now options. */
+function assertValidExpiryOptions(ttl: unknown, now: unknown): void {
+  if (
+    ttl !== undefined &&
+    (typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl <= 0)
+  ) {
+    throw new TypeError('ttl must be a positive number of milliseconds');
   }
+  if (typeof now !== 'function') {
+    throw new TypeError('now must be a function');
+  }
+}
 
-  // If selector is empty, return empty array (consistent with CSS querySelectorAll behavior)
-  if (selector === '') {
-    return [];
+/** Validates that hooks are an object of optional hook functions. */
+function assertValidHooks(value: unknown): asserts value is OnceHooks {
+  if (!value || typeof value !== 'object') {
+    throw new TypeError('hooks must be an object');
   }
+}
 
-  assertValidContext(context);
+/**
+ * Collects the global hooks and the hooks passed to a call. Returns undefined when there are
+ * none, so callers can skip building hook contexts entirely.
+ */
+function resolveHooks(hooks: OnceHooks | undefined): OnceHooks[] | undefined {
+  if (hooks !== undefined) assertValidHooks(hooks);
+  if (globalHooks.size === 0) return hooks && [hooks];
+  const resolved = Array.from(globalHooks);
+  if (hooks) resolved.push(hooks);
+  return resolved;
+}
 
-  const elements: T[] = [];
-  const queryResults = context.querySelectorAll<T>(selector);
+/** Checks whether a callback returned a promise (or another thenable) that must be awaited. */
+function isPromiseLike<T>(value: PromiseLike<T> | T): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | undefined)?.then === 'function';
+}
 
-  for (let i = 0; i < queryResults.length; i++) {
-    const element = queryResults[i];
-    if (!hasOnceAttributeValue(element, onceId, onceAttribute)) {
-      addOnceAttributeValue(element, onceId, onceAttribute);
-      elements.push(element);
+/** Combines two hooks objects into one that calls the first object's hook, then the second's. */
+function mergeHooks(first: OnceHooks, second: OnceHooks): OnceHooks {
+  return {
+    onBeforeProcess: (context) => {
+      first.onBeforeProcess?.(context);
+      second.onBeforeProcess?.(context);
+    },
+    onProcessed: (context) => {
+      first.onProcessed?.(context);
+      second.onProcessed?.(context);
+    },
+    onSkipped: (context) => {
+      first.onSkipped?.(context);
+      second.onSkipped?.(context);
+    },
+    onRemoved: (context) => {
+      first.onRemoved?.(context);
+      second.onRemoved?.(context);
+    },
+    onError: (context, error) => {
+      first.onError?.(context, error);
+      second.onError?.(context, error);
+    },
+  };
+}
+
+/** Invokes a hook on every hooks object that defines it; a no-op without hooks. */
+function emitHook(
+  hooks: OnceHooks[] | undefined,
+  name: keyof OnceHooks,
+  operation: OnceOperation,
+  onceId: OnceId,
+  element: Element,
+  error?: unknown,
+): void {
+  if (!hooks) return;
+  const context: OnceHookContext = { operation, onceId, element };
+  for (const hook of hooks) {
+    if (name === 'onError') {
+      hook.onError?.(context, error);
+    } else {
+      hook[name]?.(context);
     }
   }
+}
 
-  return elements;
+/** Runs an internal call for which matching no elements is expected, without reporting it in debug mode. */
+function withoutSelectionDiagnostics<R>(fn: () => R): R {
+  quietSelections++;
+  try {
+    return fn();
+  } finally {
+    quietSelections--;
+  }
+}
+
+/** Reports the number of elements a call matched to debug diagnostics, if enabled. */
+function checkSelection(
+  operation: string,
+  onceId: OnceId,
+  selector: unknown,
+  matched: number,
+): void {
+  if (diagnostics && quietSelections === 0) {
+    diagnostics.selection(operation, onceId, selector, matched);
+  }
+}
+
+/** Logs a collapsed console group with details and a stack trace pointing at the call site. */
+function warnDebug(message: string, ...details: unknown[]): void {
+  console.groupCollapsed(`[dom-once] ${message}`);
+  if (details.length > 0) console.warn(...details);
+  console.trace('Call site');
+  console.groupEnd();
+}
+
+/** Creates the debug diagnostics installed by setDebug. */
+function createDiagnostics(maxOnceIds: number): OnceDiagnostics {
+  const callbackSources = new Map<OnceId, string>();
+  const crowdedElements = new WeakSet<Element>();
+
+  return {
+    selection(operation, onceId, selector, matched) {
+      if (matched > 0) return;
+      if (typeof selector === 'string') {
+        warnDebug(
+          `${operation}("${onceId}") selector "${selector}" matched no elements`,
+          'Check the selector for typos and that the context contains the elements.',
+        );
+      } else {
+        warnDebug(
+          `${operation}("${onceId}") received no elements`,
+          'The collection passed as the selector is empty.',
+        );
+      }
+    },
+    nonElements(skipped) {
+      warnDebug(
+        `Skipped ${skipped} non-Element value(s) in the selector collection`,
+        'Only Elements are processed; text nodes, comments, and other values are ignored.',
+      );
+    },
+    callback(onceId, callback) {
+      // Compare sources so that re-created closures of the same initializer don't warn
+      const source = String(callback);
+      const previous = callbackSources.get(onceId);
+      if (previous === undefined) {
+        callbackSources.set(onceId, source);
+      } else if (previous !== source) {
+        warnDebug(
+          `Once ID "${onceId}" is used by different callbacks`,
+          'Elements processed by one callback are skipped by the other. Previous callback:',
+          previous,
+        );
+      }
+    },
+    marked(markers, element) {
+      const onceIds = markers.list(element);
+      if (onceIds.length <= maxOnceIds || crowdedElements.has(element)) return;
+      crowdedElements.add(element);
+      warnDebug(
+        `Element has ${onceIds.length} once ids (more than ${maxOnceIds})`,
+        element,
+        onceIds,
+      );
+    },
+  };
 }
 
 /**
- * Removes a once id from elements.
- *
- * This function removes a once id from elements, allowing them to be processed again.
- * When the last once id is removed from an element, the data attribute is removed entirely.
- *
- * @template T - The type of Element to process
- * @param {string} onceId - Unique identifier to remove from elements
- * @param {string | Element | Iterable<Element> | ArrayLike<Element>} selector - Elements to process (CSS selector, Element, NodeList, Array, etc.)
- * @param {Object} [options] - Configuration options
- * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
- * @param {Document | DocumentFragment | Element} [options.context=document] - Context to query within (when selector is a string)
- * @returns {Element[]} Elements that had the once id removed
- *
+ * Returns the IntersectionObserver shared by doOnceWhenVisible calls with the given options,
+ * creating it if needed. Elements are unobserved after their first intersection, and the
+ * observer is disconnected once it has no targets left.
+ */
+function getSharedIntersectionObserver(
+  rootMargin: string,
+  threshold: number | number[],
+): SharedIntersectionObserver {
+  const key = JSON.stringify([rootMargin, threshold]);
+  const existing = intersectionObservers.get(key);
+  if (existing) return existing;
+
+  const shared: SharedIntersectionObserver = {
+    observer: new IntersectionObserver(
+      (entries) => {
+        const visible: [Element, Set<(element: Element) => void>][] = [];
+        for (const entry of entries) {
+          const handlers = shared.targets.get(entry.target);
+          if (!entry.isIntersecting || !handlers) continue;
+          shared.targets.delete(entry.target);
+          shared.observer.unobserve(entry.target);
+          visible.push([entry.target, handlers]);
+        }
+        releaseSharedIntersectionObserver(shared);
+        // Run handlers after the bookkeeping so a throwing callback leaves it consistent, and
+        // run every handler before rethrowing, since the elements are no longer observed
+        const errors: unknown[] = [];
+        for (const [element, handlers] of visible) {
+          for (const handler of handlers) {
+            try {
+              handler(element);
+            } catch (error) {
+              errors.push(error);
+            }
+          }
+        }
+        if (errors.length === 1) throw errors[0];
+        if (errors.length > 1) {
+          throw new AggregateError(
+            errors,
+            `${errors.length} visibility handler(s) failed`,
+          );
+        }
+      },
+      { rootMargin, threshold },
+    ),
+    targets: new Map(),
+  };
+  intersectionObservers.set(key, shared);
+  return shared;
+}
+
+/** Disconnects a shared IntersectionObserver once it has no targets left. */
+function releaseSharedIntersectionObserver(
+  shared: SharedIntersectionObserver,
+): void {
+  if (shared.targets.size > 0) return;
+  shared.observer.disconnect();
+  for (const [key, value] of intersectionObservers) {
+    if (value === shared) intersectionObservers.delete(key);
+  }
+}
+
+/** Returns a high-resolution timestamp in milliseconds when available. */
+function getTimestamp(): number {
+  if (typeof performance !== 'undefined') return performance.now();
+  return Date.now();
+}
+
+/** Builds the OnceResult returned in detailed mode. */
+function createOnceResult<T extends Element>(
+  processed: T[],
+  skipped: T[],
+  failed: OnceFailure<T>[],
+  startedAt: number,
+): OnceResult<T> {
+  return {
+    processed,
+    skipped,
+    failed,
+    matched: processed.length + skipped.length + failed.length,
+    durationMs: getTimestamp() - startedAt,
+  };
+}
+
+/** Validates the signal option and throws its abort reason if it has already aborted. */
+function assertNotAborted(
+  value: unknown,
+): asserts value is AbortSignal | undefined {
+  if (value === undefined) return;
+  if (typeof (value as AbortSignal | null)?.throwIfAborted !== 'function') {
+    throw new TypeError('signal must be an AbortSignal');
+  }
+  (value as AbortSignal).throwIfAborted();
+}
+
+/**
+ * Records an element processed under `signal`, so that its once id is removed and its disposer
+ * run when the signal aborts (the `disposeOnAbort` option). Each signal gets a single abort
+ * listener, added with its first element.
+ */
+function registerAbortDisposal(
+  onceId: OnceId,
+  onceKey: string,
+  element: Element,
+  options: DoOnceOptions,
+): void {
+  const { signal, disposeOnAbort = false } = options;
+  if (!signal || !disposeOnAbort || signal.aborted) return;
+  let disposals = abortDisposals.get(signal);
+  if (!disposals) {
+    const registered: Map<string, AbortDisposal> = new Map();
+    disposals = registered;
+    abortDisposals.set(signal, registered);
+    signal.addEventListener(
+      'abort',
+      () => {
+        abortDisposals.delete(signal);
+        disposeAbortedElements(registered);
+      },
+      { once: true },
+    );
+  }
+  let disposal = disposals.get(onceKey);
+  if (!disposal) {
+    disposal = { onceId, options, elements: new Set() };
+    disposals.set(onceKey, disposal);
+  }
+  disposal.elements.add(element);
+}
+
+/** Removes the once ids registered for an aborted signal, then throws any disposer errors. */
+function disposeAbortedElements(disposals: Map<string, AbortDisposal>): void {
+  const errors: unknown[] = [];
+  for (const { onceId, options, elements } of disposals.values()) {
+    const result = removeOnce(onceId, [...elements], {
+      ...options,
+      signal: undefined,
+      detailed: true,
+    });
+    for (const { error } of result.failed) errors.push(error);
+  }
+  if (errors.length === 1) throw errors[0];
+  if (errors.length > 1) {
+    throw new AggregateError(errors, `${errors.length} disposer(s) failed`);
+  }
+}
+
+/** Disconnects a watcher when `signal` aborts; disconnecting it first stops listening. */
+function disconnectOnAbort(
+  watcher: OnceWatcher,
+  signal: AbortSignal | undefined,
+): OnceWatcher {
+  if (!signal) return watcher;
+  const onAbort = (): void => watcher.disconnect();
+  signal.addEventListener('abort', onAbort, { once: true });
+  return {
+    disconnect() {
+      signal.removeEventListener('abort', onAbort);
+      watcher.disconnect();
+    },
+  };
+}
+
+/** Validates the emitEvents option and returns the event names to dispatch, if enabled. */
+function resolveOnceEvents(
+  value: unknown,
+): Required<OnceEventNames> | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return ONCE_EVENT_NAMES;
+  if (typeof value !== 'object' || value === null) {
+    throw new TypeError('emitEvents must be a boolean or an object');
+  }
+  const {
+    marked = ONCE_EVENT_NAMES.marked,
+    unmarked = ONCE_EVENT_NAMES.unmarked,
+  } = value as OnceEventNames;
+  for (const name of [marked, unmarked]) {
+    if (typeof name !== 'string' || name === '') {
+      throw new TypeError('Event names must be non-empty strings');
+    }
+  }
+  return { marked, unmarked };
+}
+
+/** Dispatches a marked/unmarked event on an element, in the element's realm, if events are enabled. */
+function dispatchOnceEvent(
+  events: Required<OnceEventNames> | undefined,
+  kind: keyof OnceEventNames,
+  element: Element,
+  onceId: OnceId,
+  markers: OnceStore,
+  onceAttribute: DataAttribute,
+): void {
+  if (!events) return;
+  const attribute = onceStoreAttributes.get(markers) ?? onceAttribute;
+  const EventConstructor =
+    element.ownerDocument.defaultView?.CustomEvent ?? CustomEvent;
+  element.dispatchEvent(
+    new EventConstructor<OnceEventDetail>(events[kind], {
+      bubbles: true,
+      composed: true,
+      detail: { onceId, attribute },
+    }),
+  );
+}
+
+/** Validates the doOnce schedule option. */
+function assertValidSchedule(value: unknown): asserts value is OnceSchedule {
+  if (value !== 'idle' && value !== 'chunked') {
+    throw new TypeError("schedule must be 'idle' or 'chunked'");
+  }
+}
+
+/**
+ * Waits until the next scheduled batch may run and returns a function reporting
+ * when that batch has used up its time.
+ */
+async function nextScheduledSlice(
+  schedule: OnceSchedule,
+): Promise<() => boolean> {
+  if (schedule === 'idle' && typeof requestIdleCallback === 'function') {
+    const deadline = await new Promise<IdleDeadline>((resolve) => {
+      requestIdleCallback(resolve);
+    });
+    return () => deadline.timeRemaining() <= 0;
+  }
+
+  const { scheduler } = globalThis as {
+    scheduler?: { yield?: () => Promise<void> };
+  };
+  if (schedule === 'chunked' && typeof scheduler?.yield === 'function') {
+    await scheduler.yield();
+  } else {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  const endsAt = getTimestamp() + SCHEDULE_SLICE_MS;
+  return () => getTimestamp() >= endsAt;
+}
+
+/** Runs doOnce for each element in time-sliced batches (the doOnce `schedule` option). */
+async function doOnceScheduled<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  callback: (element: T) => void | OnceDisposer,
+  options: ScheduledOnceOptions,
+): Promise<T[]> {
+  const {
+    schedule,
+    signal,
+    continueOnError = false,
+    ...elementOptions
+  } = options;
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    ttl,
+    now = Date.now,
+  } = elementOptions;
+
+  assertValidSchedule(schedule);
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  const token = getOnceToken(onceId, resolveVersion(options.version));
+  assertValidMigrate(options.migrate);
+  assertValidExpiryOptions(ttl, now);
+  resolveHooks(options.hooks);
+  resolveOnceEvents(options.emitEvents);
+  assertValidSelectorTypes(selector);
+
+  if (typeof callback !== 'function') {
+    throw new TypeError('callback must be a function');
+  }
+
+  assertNotAborted(signal);
+
+  // Quick early return for empty selector string
+  if (typeof selector === 'string' && selector === '') {
+    return [];
+  }
+
+  if (typeof selector === 'string') {
+    assertValidContext(context);
+  }
+
+  const matched = resolveElements<T>(selector, context, options);
+  checkSelection('doOnce', onceId, selector, matched.length);
+
+  // Each element goes through doOnce when its batch runs, so elements are marked as they
+  // are processed and ones handled by an overlapping call in the meantime are skipped
+  const onceKey = getOnceKey(token, markers);
+  const elements: T[] = [];
+  const errors: unknown[] = [];
+  let index = 0;
+  while (index < matched.length) {
+    const sliceEnded = await nextScheduledSlice(schedule);
+    do {
+      signal?.throwIfAborted();
+      const element = matched[index++];
+      try {
+        const processed = withoutSelectionDiagnostics(() =>
+          doOnce<T>(onceId, element, callback, elementOptions),
+        );
+        for (const done of processed) {
+          registerAbortDisposal(onceId, onceKey, done, options);
+        }
+        elements.push(...processed);
+      } catch (error) {
+        if (!continueOnError) throw error;
+        errors.push(error);
+      }
+    } while (index < matched.length && !sliceEnded());
+  }
+
+  if (errors.length > 0) {
+    throw createCallbackAggregateError(errors, onceId);
+  }
+
+  return elements;
+}
+
+/** Validates the migrate option. */
+function assertValidMigrate(
+  value: unknown,
+): asserts value is OnceOptions['migrate'] {
+  if (value !== undefined && typeof value !== 'function') {
+    throw new TypeError('migrate must be a function');
+  }
+}
+
+/** Splits a space-separated once attribute value into once IDs. */
+function parseOnceIds(value: string | null): OnceId[] {
+  if (!value) return [];
+  return value
+    .trim()
+    .split(WHITESPACE_PATTERN)
+    .filter((s) => s.length > 0);
+}
+
+/** Validates that a value implements the OnceStore interface. */
+function assertValidOnceStore(value: unknown): asserts value is OnceStore {
+  const maybe = value as Partial<Record<keyof OnceStore, unknown>> | null;
+  if (
+    !maybe ||
+    typeof maybe !== 'object' ||
+    typeof maybe.has !== 'function' ||
+    typeof maybe.add !== 'function' ||
+    typeof maybe.remove !== 'function' ||
+    typeof maybe.list !== 'function' ||
+    typeof maybe.query !== 'function'
+  ) {
+    throw new TypeError(
+      'store must be "attribute", "memory", or an object implementing OnceStore',
+    );
+  }
+}
+
+/** Resolves the store option to a OnceStore ('attribute' and 'memory' map to shared stores per attribute). */
+function resolveOnceStore(
+  store: OnceStoreKind | OnceStore,
+  onceAttribute: DataAttribute,
+): OnceStore {
+  if (store === 'attribute') return attributeStore(onceAttribute);
+  if (store === 'memory') {
+    let shared = sharedMemoryStores.get(onceAttribute);
+    if (!shared) {
+      shared = memoryStore();
+      sharedMemoryStores.set(onceAttribute, shared);
+    }
+    return shared;
+  }
+  assertValidOnceStore(store);
+  return store;
+}
+
+/** Builds the key used to track per-element state for a once ID and store. */
+function getOnceKey(onceId: OnceId, markers: OnceStore): string {
+  let storeId = onceStoreIds.get(markers);
+  if (storeId === undefined) {
+    storeId = nextOnceStoreId++;
+    onceStoreIds.set(markers, storeId);
+  }
+  return `${storeId} ${onceId}`;
+}
+
+/** Marks a once key as in-flight for an element; returns false if it already was. */
+function claimInFlight(element: Element, onceKey: string): boolean {
+  let keys = inFlightOnceKeys.get(element);
+  if (!keys) {
+    keys = new Set();
+    inFlightOnceKeys.set(element, keys);
+  }
+  if (keys.has(onceKey)) return false;
+  keys.add(onceKey);
+  return true;
+}
+
+/** Returns true if a doOnceAsync call is still awaiting the callback for an element and once key. */
+function isInFlight(element: Element, onceKey: string): boolean {
+  return inFlightOnceKeys.get(element)?.has(onceKey) ?? false;
+}
+
+/** Clears an in-flight once key from an element. */
+function releaseInFlight(element: Element, onceKey: string): void {
+  const keys = inFlightOnceKeys.get(element);
+  if (!keys) return;
+  keys.delete(onceKey);
+  if (keys.size === 0) inFlightOnceKeys.delete(element);
+}
+
+/** Stores the disposer returned by a callback, if it returned one. */
+function registerDisposer(
+  element: Element,
+  onceKey: string,
+  result: unknown,
+): void {
+  if (typeof result !== 'function') return;
+  let disposers = onceDisposers.get(element);
+  if (!disposers) {
+    disposers = new Map();
+    onceDisposers.set(element, disposers);
+  }
+  disposers.set(onceKey, result as OnceDisposer);
+}
+
+/** Unregisters and invokes the disposer stored for an element and once key, if any. */
+function runDisposer(element: Element, onceKey: string): void {
+  const disposers = onceDisposers.get(element);
+  const disposer = disposers?.get(onceKey);
+  if (!disposers || !disposer) return;
+  disposers.delete(onceKey);
+  if (disposers.size === 0) onceDisposers.delete(element);
+  disposer();
+}
+
+/**
+ * Checks if a value is an Element from any realm (iframe, popup, or the current window).
+ * Uses the node type instead of `instanceof Element`, which fails across realms.
+ */
+function isElement(value: unknown): value is Element {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    (value as Node).nodeType === ELEMENT_NODE &&
+    typeof (value as Element).getAttribute === 'function'
+  );
+}
+
+/** Checks if a node is a ShadowRoot. */
+function isShadowRoot(node: unknown): node is ShadowRoot {
+  return (
+    node !== null &&
+    typeof node === 'object' &&
+    (node as Node).nodeType === DOCUMENT_FRAGMENT_NODE &&
+    'host' in node
+  );
+}
+
+/** Returns the document of a same-origin (i)frame, or null when cross-origin or not loaded. */
+function getFrameDocument(frame: Element): Document | null {
+  try {
+    return (frame as HTMLIFrameElement).contentDocument ?? null;
+  } catch {
+    // Some browsers throw a SecurityError for cross-origin frames
+    return null;
+  }
+}
+
+/**
+ * Runs a query against the context and, optionally, every open shadow root beneath it, the
+ * elements slotted into queried shadow roots, and same-origin frame documents. Without any of
+ * these options this is a plain query. Results are de-duplicated: the context's own matches
+ * first, then those of each shadow root or frame document in the order they are found.
+ */
+function querySelectorAllDeep<T extends Element>(
+  context: Document | DocumentFragment | Element,
+  query: (root: Document | DocumentFragment | Element) => T[],
+  matches: (element: Element) => boolean,
+  options: Pick<OnceOptions, 'pierceShadow' | 'includeSlotted' | 'frames'>,
+): T[] {
+  const {
+    pierceShadow = false,
+    includeSlotted = false,
+    frames = false,
+  } = options;
+  if (!pierceShadow && !includeSlotted && !frames) return query(context);
+
+  const results: T[] = [];
+  const seen = new Set<Element>();
+  const add = (element: T): void => {
+    if (seen.has(element)) return;
+    seen.add(element);
+    results.push(element);
+  };
+
+  const visit = (root: Document | DocumentFragment | Element): void => {
+    query(root).forEach(add);
+
+    if (pierceShadow) {
+      // Closed shadow roots are not reachable (shadowRoot is null)
+      if (isElement(root) && root.shadowRoot) visit(root.shadowRoot);
+      for (const element of Array.from(root.querySelectorAll('*'))) {
+        if (element.shadowRoot) visit(element.shadowRoot);
+      }
+    }
+
+    if (includeSlotted && isShadowRoot(root)) {
+      for (const slot of Array.from(root.querySelectorAll('slot'))) {
+        for (const assigned of slot.assignedElements({ flatten: true })) {
+          if (matches(assigned)) add(assigned as T);
+          visit(assigned);
+        }
+      }
+    }
+
+    if (frames) {
+      for (const frame of Array.from(root.querySelectorAll('iframe, frame'))) {
+        const frameDocument = getFrameDocument(frame);
+        if (frameDocument) visit(frameDocument);
+      }
+    }
+  };
+
+  visit(context);
+  return results;
+}
+
+/** Resolves a selector (string, Element, Iterable, or ArrayLike) to a list of elements, skipping non-Elements. */
+function resolveElements<T extends Element>(
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  context: Document | DocumentFragment | Element,
+  queryOptions: Pick<
+    OnceOptions,
+    'pierceShadow' | 'includeSlotted' | 'frames'
+  > = {},
+): T[] {
+  // string selector branch
+  if (typeof selector === 'string') {
+    return querySelectorAllDeep<T>(
+      context,
+      (root) => Array.from(root.querySelectorAll<T>(selector)),
+      (element) => element.matches(selector),
+      queryOptions,
+    );
+  }
+
+  // single Element
+  if (isElement(selector)) return [selector as T];
+
+  const elements: T[] = [];
+  let skipped = 0;
+
+  // iterable (NodeList, generator, etc.) — iterate with for..of
+  if (isIterable(selector)) {
+    for (const maybeEl of selector as Iterable<unknown>) {
+      if (isElement(maybeEl)) elements.push(maybeEl as T);
+      else skipped++;
+    }
+  } else if (isArrayLike(selector)) {
+    // array-like (HTMLCollection, etc.) — iterate by index
+    const list = selector as ArrayLike<unknown>;
+    for (let i = 0, len = list.length; i < len; i++) {
+      const maybeEl = list[i] as unknown;
+      if (isElement(maybeEl)) elements.push(maybeEl as T);
+      else skipped++;
+    }
+  }
+
+  if (skipped > 0) diagnostics?.nonElements(skipped);
+  return elements;
+}
+
+/** Wraps per-element callback failures collected with `continueOnError` in an AggregateError. */
+function createCallbackAggregateError(
+  errors: unknown[],
+  onceId: OnceId,
+): AggregateError {
+  return new AggregateError(
+    errors,
+    `${errors.length} callback(s) failed for once ID "${onceId}"`,
+  );
+}
+
+/** Validates that a behavior dependency list is an array of strings. */
+function assertValidBehaviorNames(
+  value: unknown,
+  label: string,
+): asserts value is string[] | undefined {
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) || value.some((name) => typeof name !== 'string'))
+  ) {
+    throw new TypeError(`${label} must be an array of behavior names`);
+  }
+}
+
+/** Orders registered behaviors so dependencies run first (stable by registration order). */
+function sortBehaviors(
+  registry: BehaviorRegistry,
+): [string, RegisteredBehavior][] {
+  const sorted: [string, RegisteredBehavior][] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (name: string): void => {
+    if (visited.has(name)) return;
+    if (visiting.has(name)) {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      throw new Error(`Behavior dependency cycle: ${cycle.join(' -> ')}`);
+    }
+    const behavior = registry.get(name) as RegisteredBehavior;
+    visiting.add(name);
+    path.push(name);
+    for (const dependency of behavior.requires ?? []) {
+      if (!registry.has(dependency)) {
+        throw new Error(
+          `Behavior "${name}" requires undefined behavior "${dependency}"`,
+        );
+      }
+      visit(dependency);
+    }
+    for (const dependency of behavior.after ?? []) {
+      if (registry.has(dependency)) visit(dependency);
+    }
+    path.pop();
+    visiting.delete(name);
+    visited.add(name);
+    sorted.push([name, behavior]);
+  };
+
+  for (const name of registry.keys()) visit(name);
+  return sorted;
+}
+
+/** Validates a behavior definition and adds it to a registry (defineBehavior). */
+function registerBehavior<T extends Element>(
+  registry: BehaviorRegistry,
+  name: string,
+  behavior: OnceBehavior<T>,
+): void {
+  assertValidOnceId(name);
+
+  if (!behavior || typeof behavior !== 'object') {
+    throw new TypeError('behavior must be an object');
+  }
+  const { selector, attach, detach, onceId = name, after, requires } = behavior;
+  if (typeof selector !== 'string') {
+    throw new TypeError('selector must be a string');
+  }
+  if (typeof attach !== 'function') {
+    throw new TypeError('attach must be a function');
+  }
+  if (detach !== undefined && typeof detach !== 'function') {
+    throw new TypeError('detach must be a function');
+  }
+  assertValidOnceId(onceId);
+  assertValidBehaviorNames(after, 'after');
+  assertValidBehaviorNames(requires, 'requires');
+
+  if (registry.has(name)) {
+    throw new Error(`Behavior "${name}" is already defined`);
+  }
+  registry.set(name, {
+    ...(behavior as unknown as OnceBehavior),
+    onceId,
+  });
+}
+
+/** Attaches the behaviors of a registry within a context (attachBehaviors). */
+function attachRegisteredBehaviors(
+  registry: BehaviorRegistry,
+  context: Document | DocumentFragment | Element,
+  options: Pick<OnceOptions, 'onceAttribute' | 'store' | 'signal'>,
+): void {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    store = 'attribute',
+    signal,
+  } = options;
+
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  assertValidContext(context);
+  assertNotAborted(signal);
+
+  const errors: unknown[] = [];
+  for (const [name, behavior] of sortBehaviors(registry)) {
+    signal?.throwIfAborted();
+    try {
+      const requiredOnceIds = (behavior.requires ?? []).map(
+        (dependency) => (registry.get(dependency) as RegisteredBehavior).onceId,
+      );
+      // Narrow to elements already marked by every required behavior
+      let targets: string | Element[] = behavior.selector;
+      if (requiredOnceIds.length > 0 && behavior.selector !== '') {
+        targets = Array.from(
+          context.querySelectorAll(behavior.selector),
+        ).filter((element) =>
+          requiredOnceIds.every((requiredOnceId) =>
+            markers.has(element, requiredOnceId),
+          ),
+        );
+      }
+      withoutSelectionDiagnostics(() =>
+        doOnce(
+          behavior.onceId,
+          targets,
+          (element) => behavior.attach(element, context),
+          { onceAttribute, context, store, signal },
+        ),
+      );
+    } catch (error) {
+      // Aborting stops every behavior instead of failing this one
+      signal?.throwIfAborted();
+      errors.push(
+        new Error(`Behavior "${name}" failed to attach`, { cause: error }),
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(errors, `${errors.length} behavior(s) failed`);
+  }
+}
+
+/** Detaches the behaviors of a registry within a context (detachBehaviors). */
+function detachRegisteredBehaviors(
+  registry: BehaviorRegistry,
+  context: Document | DocumentFragment | Element,
+  trigger: BehaviorDetachTrigger,
+  options: Pick<OnceOptions, 'onceAttribute' | 'store' | 'signal'>,
+): void {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    store = 'attribute',
+    signal,
+  } = options;
+
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  assertValidContext(context);
+  assertNotAborted(signal);
+
+  const errors: unknown[] = [];
+  for (const [name, behavior] of sortBehaviors(registry).reverse()) {
+    signal?.throwIfAborted();
+    const failed = (error: unknown): void => {
+      errors.push(
+        new Error(`Behavior "${name}" failed to detach`, { cause: error }),
+      );
+    };
+    const elements = queryAnyVersion(markers, context, behavior.onceId);
+    // Detach each element separately so one failure doesn't keep the others attached
+    if (behavior.detach) {
+      for (const element of elements) {
+        try {
+          behavior.detach(element, context, trigger);
+        } catch (error) {
+          failed(error);
+        }
+      }
+    }
+    if (trigger === 'unload') {
+      const result = removeOnce(behavior.onceId, elements, {
+        onceAttribute,
+        store,
+        version: ANY_VERSION,
+        detailed: true,
+      });
+      for (const { error } of result.failed) failed(error);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(errors, `${errors.length} behavior(s) failed`);
+  }
+}
+
+/** Checks if a value is iterable (has Symbol.iterator). */
+function isIterable(value: unknown): value is Iterable<unknown> {
+  if (typeof Symbol === 'undefined' || typeof Symbol.iterator === 'undefined') {
+    return false;
+  }
+
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { [Symbol.iterator]?: unknown })[Symbol.iterator] ===
+      'function'
+  );
+}
+
+/** Checks if a value is array-like (has numeric length property). */
+function isArrayLike(value: unknown): value is ArrayLike<unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const maybe = value as { length?: unknown };
+  const len = maybe.length;
+  return (
+    typeof len === 'number' &&
+    Number.isFinite(len) &&
+    len >= 0 &&
+    Math.floor(len) === len
+  );
+}
+/**
+ * Checks whether a runOnceFor target is an element. DOM getters throw for prototypes such as
+ * `HTMLElement.prototype`, so those count as plain objects.
+ */
+function isElementTarget(target: object): target is Element {
+  try {
+    return isElement(target);
+  } catch {
+    return false;
+  }
+}
+
+/** Checks whether a value is an object (other than an element) with runOnce/runOnceFor guards. */
+function hasRunOnceGuards(value: unknown): value is object {
+  return runOnceResults.has(value as object) && !isIterable(value);
+}
+
+/**
+ * Validates a runOnceFor target.
+ * @throws {TypeError} If target is not an object or function
+ */
+function assertValidRunOnceTarget(target: unknown): asserts target is object {
+  if (
+    target === null ||
+    (typeof target !== 'object' && typeof target !== 'function')
+  ) {
+    throw new TypeError('target must be an object or function');
+  }
+}
+
+// #endregion PRIVATE_HELPERS
+
+// #region PUBLIC_API
+// =============================================================================
+// PUBLIC_API — 🌐
+// =============================================================================
+/**
+ * Queries for elements using a CSS selector and marks them with a once id.
+ *
+ * This function finds elements matching a CSS selector and marks them with a once id
+ * to track that they've been processed, returning only elements that weren't already marked.
+ *
+ * @template T - The type of Element to query for
+ * @param {string} onceId - Unique identifier to mark elements with (alphanumeric, underscore, hyphen)
+ * @param {string} selector - CSS selector string to query elements
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to query within
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.pierceShadow=false] - Also query inside open shadow roots under the context
+ * @param {boolean} [options.includeSlotted=false] - Also include elements slotted into queried shadow roots
+ * @param {boolean} [options.frames=false] - Also query same-origin iframe documents under the context
+ * @param {string | number} [options.version] - Version of the once id; elements marked with another version are processed again
+ * @param {Function} [options.migrate] - Called with each re-processed element and its previous version
+ * @param {number} [options.ttl] - Milliseconds until the marks expire and elements can be processed again
+ * @param {Function} [options.now=Date.now] - Clock used for mark expiry
+ * @param {boolean} [options.detailed=false] - Return an OnceResult and report failures in it instead of throwing
+ * @param {OnceHooks} [options.hooks] - Instrumentation hooks for this call
+ * @param {AbortSignal} [options.signal] - Stops processing and throws its reason (an AbortError) when aborted
+ * @param {boolean | OnceEventNames} [options.emitEvents=false] - Dispatch a bubbling 'dom-once:marked' CustomEvent on each newly marked element
+ * @returns {Element[]} Elements that were newly marked with the once id
+ *
+ * @example
+ * Mark all buttons
+ *
+ * ```ts
+ * const buttons = querySelectorOnce('init', 'button');
+ * ```
+ *
+ * @example
+ * With custom attribute and context
+ *
+ * ```ts
+ * const items = querySelectorOnce('processed', '.item', {
+ *   onceAttribute: 'data-my-tracker',
+ *   context: document.querySelector('#container')
+ * });
+ * ```
+ *
+ * @example
+ * Include elements inside open shadow roots
+ *
+ * ```ts
+ * const fields = querySelectorOnce('enhance', 'input', { pierceShadow: true });
+ * ```
+ *
+ * @example
+ * Include elements inside same-origin iframes
+ *
+ * ```ts
+ * const links = querySelectorOnce('track', 'a', { frames: true });
+ * ```
+ */
+export function querySelectorOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string,
+  options: OnceOptions & DetailedOption,
+): OnceResult<T>;
+export function querySelectorOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string,
+  options?: OnceOptions,
+): T[];
+export function querySelectorOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string,
+  options: OnceOptions & Partial<DetailedOption> = {},
+): T[] | OnceResult<T> {
+  const startedAt = getTimestamp();
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    migrate,
+    ttl,
+    now = Date.now,
+    detailed = false,
+    signal,
+  } = options;
+
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  const version = resolveVersion(options.version);
+  const token = getOnceToken(onceId, version);
+  assertValidMigrate(migrate);
+  assertValidExpiryOptions(ttl, now);
+  const hooks = resolveHooks(options.hooks);
+  const events = resolveOnceEvents(options.emitEvents);
+
+  if (typeof selector !== 'string') {
+    throw new TypeError('selector must be a string');
+  }
+
+  assertNotAborted(signal);
+
+  const elements: T[] = [];
+  const skipped: T[] = [];
+  const failed: OnceFailure<T>[] = [];
+
+  // If selector is empty, return empty array (consistent with CSS querySelectorAll behavior)
+  if (selector === '') {
+    if (detailed) return createOnceResult(elements, skipped, failed, startedAt);
+    return elements;
+  }
+
+  assertValidContext(context);
+
+  const onceKey = getOnceKey(token, markers);
+  const queryResults = resolveElements<T>(selector, context, options);
+  checkSelection('querySelectorOnce', onceId, selector, queryResults.length);
+
+  for (let i = 0; i < queryResults.length; i++) {
+    signal?.throwIfAborted();
+    const element = queryResults[i];
+    // Elements claimed by a pending doOnceAsync call count as processed
+    if (
+      isProcessed(markers, element, onceId, token, now) ||
+      isInFlight(element, onceKey)
+    ) {
+      emitHook(hooks, 'onSkipped', 'querySelectorOnce', onceId, element);
+      if (detailed) skipped.push(element);
+      continue;
+    }
+    emitHook(hooks, 'onBeforeProcess', 'querySelectorOnce', onceId, element);
+    let stale: string[];
+    try {
+      stale = prepareMark(markers, element, onceId, token, version, migrate);
+    } catch (error) {
+      emitHook(hooks, 'onError', 'querySelectorOnce', onceId, element, error);
+      if (!detailed) throw error;
+      failed.push({ element, error });
+      continue;
+    }
+    markToken(markers, element, token, stale, getExpiresAt(ttl, now));
+    elements.push(element);
+    dispatchOnceEvent(
+      events,
+      'marked',
+      element,
+      onceId,
+      markers,
+      onceAttribute,
+    );
+    emitHook(hooks, 'onProcessed', 'querySelectorOnce', onceId, element);
+  }
+
+  if (detailed) return createOnceResult(elements, skipped, failed, startedAt);
+  return elements;
+}
+
+/**
+ * Removes a once id from elements.
+ *
+ * This function removes a once id from elements, allowing them to be processed again.
+ * When the last once id is removed from an element, the data attribute is removed entirely.
+ * If a doOnce callback returned a disposer for the element, it is invoked before the once id
+ * is removed; a disposer that throws leaves the once id in place and propagates the error.
+ * Passing a runOnceFor target other than an element (or `globalThis` for runOnce) resets its
+ * guard instead, so the next call runs the function again; no elements are returned.
+ *
+ * @template T - The type of Element to process
+ * @param {string} onceId - Unique identifier to remove from elements
+ * @param {string | Element | Iterable<Element> | ArrayLike<Element> | object} selector - Elements to process (CSS selector, Element, NodeList, Array, etc.), or a runOnceFor target
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to query within (when selector is a string)
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.pierceShadow=false] - Also query inside open shadow roots under the context
+ * @param {boolean} [options.includeSlotted=false] - Also include elements slotted into queried shadow roots
+ * @param {boolean} [options.frames=false] - Also query same-origin iframe documents under the context
+ * @param {string | number} [options.version] - Only match this version of the once id (default: any version)
+ * @param {boolean} [options.detailed=false] - Return an OnceResult and report failures in it instead of throwing
+ * @param {OnceHooks} [options.hooks] - Instrumentation hooks for this call
+ * @param {AbortSignal} [options.signal] - Stops processing and throws its reason (an AbortError) when aborted
+ * @param {boolean | OnceEventNames} [options.emitEvents=false] - Dispatch a bubbling 'dom-once:unmarked' CustomEvent on each unmarked element
+ * @returns {Element[]} Elements that had the once id removed
+ *
+ * @example
+ * Remove from all matching elements
+ *
+ * ```ts
+ * const removed = removeOnce('init', '.processed');
+ * ```
+ *
+ * @example
+ * Remove from a NodeList
+ *
+ * ```ts
+ * const elements = document.querySelectorAll('.item');
+ * removeOnce('processed', elements);
+ * ```
+ *
+ * @example
+ * Remove from a single element
+ *
+ * ```ts
+ * const button = document.querySelector('button');
+ * removeOnce('clicked', button);
+ * ```
+ */
+export function removeOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  options: OnceOptions & DetailedOption,
+): OnceResult<T>;
+export function removeOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  options?: OnceOptions,
+): T[];
+export function removeOnce(
+  onceId: OnceId,
+  target: object,
+  options?: OnceOptions,
+): Element[];
+export function removeOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element> | object,
+  options: OnceOptions & Partial<DetailedOption> = {},
+): T[] | OnceResult<T> {
+  const startedAt = getTimestamp();
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    detailed = false,
+    signal,
+  } = options;
+
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  const version = resolveVersion(options.version, true) ?? ANY_VERSION;
+  const token = getOnceToken(onceId, version);
+  const hooks = resolveHooks(options.hooks);
+  const events = resolveOnceEvents(options.emitEvents);
+
+  // Guards of runOnceFor targets other than elements (globalThis for runOnce) reset here too
+  if (hasRunOnceGuards(selector)) {
+    runOnceResults.get(selector)?.delete(onceId);
+    if (detailed) return createOnceResult<T>([], [], [], startedAt);
+    return [];
+  }
+
+  assertValidSelectorTypes(selector);
+  assertNotAborted(signal);
+
+  const elements: T[] = [];
+  const skipped: T[] = [];
+  const failed: OnceFailure<T>[] = [];
+
+  // Quick early return for empty selector string
+  if (typeof selector === 'string' && selector === '') {
+    if (detailed) return createOnceResult(elements, skipped, failed, startedAt);
+    return elements;
+  }
+
+  if (typeof selector === 'string') {
+    assertValidContext(context);
+  }
+
+  for (const element of resolveElements<T>(selector, context, options)) {
+    signal?.throwIfAborted();
+    let tokens: string[];
+    if (version === ANY_VERSION) {
+      tokens = listVersionTokens(markers, element, onceId);
+    } else {
+      tokens = markers.has(element, token) ? [token] : [];
+    }
+    if (tokens.length === 0) {
+      emitHook(hooks, 'onSkipped', 'removeOnce', onceId, element);
+      if (detailed) skipped.push(element);
+      continue;
+    }
+    try {
+      for (const existing of tokens) {
+        runDisposer(element, getOnceKey(existing, markers));
+        markers.remove(element, existing);
+        clearMarkRecords(markers, element, existing);
+      }
+    } catch (error) {
+      emitHook(hooks, 'onError', 'removeOnce', onceId, element, error);
+      if (!detailed) throw error;
+      failed.push({ element, error });
+      continue;
+    }
+    elements.push(element);
+    dispatchOnceEvent(
+      events,
+      'unmarked',
+      element,
+      onceId,
+      markers,
+      onceAttribute,
+    );
+    emitHook(hooks, 'onRemoved', 'removeOnce', onceId, element);
+  }
+
+  if (detailed) return createOnceResult(elements, skipped, failed, startedAt);
+  return elements;
+}
+
+/**
+ * Executes a callback once per element, marking elements with a once id to prevent re-execution.
+ *
+ * This function executes a callback on elements that haven't been marked with a once id yet,
+ * then marks them to prevent future executions with the same once id.
+ *
+ * Marking is transactional: an element is only marked after its callback returns, so an element
+ * whose callback throws stays unmarked and is retried by the next call. By default the first
+ * error stops processing and propagates; with `continueOnError` the remaining elements are still
+ * processed and the failures are thrown together as an `AggregateError` (in element order).
+ *
+ * The callback may return a disposer function. It is stored for the element and once id and
+ * invoked by `removeOnce` or `disposeOnce` before the once id is removed.
+ *
+ * With `version`, elements are marked with an `id@version` token. An element marked with another
+ * version (or with the unversioned id) is processed again: disposers registered for the old token
+ * run, then `migrate` receives the previous version, then the callback. The old token is replaced
+ * once the callback returns. Calls without `version` treat an element marked with any version of
+ * the once id as processed, so older unversioned callers don't initialize it a second time.
+ *
+ * With `ttl`, marks expire after the given number of milliseconds; expired elements are
+ * processed again (running the previous disposer first) and `findOnce` excludes them.
+ *
+ * With `detailed: true`, the call returns an `OnceResult` with the processed, skipped, and
+ * failed elements instead of an array; failing elements are reported rather than thrown.
+ *
+ * Aborting `signal` stops before the next element and throws the signal's reason (an
+ * `AbortError` unless another reason was given), also in detailed mode. With `disposeOnAbort`,
+ * the elements processed under the signal have their disposers run and the once id removed
+ * when it aborts.
+ *
+ * With `emitEvents`, a bubbling `dom-once:marked` CustomEvent (detail: `{ onceId, attribute }`)
+ * is dispatched on each element right after it is marked, so other code can react without
+ * importing the initializer. Pass `{ marked: 'my-app:ready' }` to use another event name.
+ *
+ * With `schedule`, the call returns a promise and processes the elements in time-sliced batches:
+ * `'idle'` runs batches in idle periods (`requestIdleCallback`), `'chunked'` yields to other
+ * tasks between short batches (`scheduler.yield`); both fall back to `setTimeout`. Elements are
+ * marked as they are processed, so an overlapping call skips them, and elements processed by
+ * another call before their batch runs are skipped. Aborting `signal` stops before the next
+ * element and rejects with the signal's reason; elements already processed stay marked.
+ *
+ * @template T - The type of Element to process
+ * @param {string} onceId - Unique identifier to mark elements with
+ * @param {string | Element | Iterable<Element> | ArrayLike<Element>} selector - Elements to process (CSS selector, Element, NodeList, Array, etc.)
+ * @param {Function} callback - Function to execute on each unmarked element (may return a disposer)
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to query within (when selector is a string)
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.pierceShadow=false] - Also query inside open shadow roots under the context
+ * @param {boolean} [options.includeSlotted=false] - Also include elements slotted into queried shadow roots
+ * @param {boolean} [options.frames=false] - Also query same-origin iframe documents under the context
+ * @param {string | number} [options.version] - Version of the once id; elements marked with another version are processed again
+ * @param {Function} [options.migrate] - Called with each re-processed element and its previous version
+ * @param {number} [options.ttl] - Milliseconds until the marks expire and elements can be processed again
+ * @param {Function} [options.now=Date.now] - Clock used for mark expiry
+ * @param {boolean} [options.continueOnError=false] - Keep processing after a callback throws, then throw an AggregateError
+ * @param {boolean} [options.detailed=false] - Return an OnceResult and report failures in it instead of throwing
+ * @param {string} [options.schedule] - Process elements in time-sliced batches ('idle' or 'chunked') and return a promise
+ * @param {OnceHooks} [options.hooks] - Instrumentation hooks for this call
+ * @param {AbortSignal} [options.signal] - Stops processing and throws its reason (an AbortError) when aborted
+ * @param {boolean} [options.disposeOnAbort=false] - When `signal` aborts, run disposers and remove the once id from processed elements
+ * @param {boolean | OnceEventNames} [options.emitEvents=false] - Dispatch a bubbling 'dom-once:marked' CustomEvent on each newly marked element
+ * @returns {Element[]} Elements that were processed (had callback executed and once id added)
+ * @throws {AggregateError} When `continueOnError` is set and one or more callbacks threw
+ *
+ * @example
+ * Initialize all buttons once
+ *
+ * ```ts
+ * doOnce('init', 'button', (btn) => {
+ *   btn.addEventListener('click', handleClick);
+ * });
+ * ```
+ *
+ * @example
+ * Process a NodeList
+ *
+ * ```ts
+ * const items = document.querySelectorAll('.item');
+ * doOnce('animate', items, (item) => {
+ *   item.classList.add('animated');
+ * })
+ * ```
+ *
+ * @example
+ * With custom tracking attribute
+ *
+ * ```ts
+ * doOnce('setup', '.widget', setupWidget, {
+ *   onceAttribute: 'data-initialized'
+ * });
+ * ```
+ *
+ * @example
+ * Return a disposer for teardown via removeOnce
+ *
+ * ```ts
+ * doOnce('resize', '.panel', (panel) => {
+ *   const onResize = () => layout(panel);
+ *   window.addEventListener('resize', onResize);
+ *   return () => window.removeEventListener('resize', onResize);
+ * });
+ * ```
+ *
+ * @example
+ * Alert when an initializer matches elements but processes none
+ *
+ * ```ts
+ * const result = doOnce('init', '.widget', initWidget, { detailed: true });
+ * if (result.matched > 0 && result.processed.length === 0) report(result.failed);
+ * ```
+ *
+ * @example
+ * Re-run an initializer on cached markup after it changes
+ *
+ * ```ts
+ * doOnce('btn-init', 'button', initButton, {
+ *   version: 3,
+ *   migrate: (btn, previousVersion) => cleanUpButton(btn, previousVersion),
+ * });
+ * ```
+ *
+ * @example
+ * Initialize thousands of rows without blocking input, cancelling on navigation
+ *
+ * ```ts
+ * const controller = new AbortController();
+ * const rows = await doOnce('row-init', 'tr', initRow, {
+ *   schedule: 'idle',
+ *   signal: controller.signal,
+ * });
+ * ```
+ */
+export function doOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  callback: (element: T) => void | OnceDisposer,
+  options: ScheduledOnceOptions,
+): Promise<T[]>;
+export function doOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  callback: (element: T) => void | OnceDisposer,
+  options: DoOnceOptions & DetailedOption,
+): OnceResult<T>;
+export function doOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  callback: (element: T) => void | OnceDisposer,
+  options?: DoOnceOptions,
+): T[];
+export function doOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  callback: (element: T) => void | OnceDisposer,
+  options: DoOnceOptions &
+    Partial<DetailedOption> &
+    Partial<ScheduledOnceOptions> = {},
+): T[] | OnceResult<T> | Promise<T[]> {
+  if (options.schedule !== undefined) {
+    return doOnceScheduled<T>(
+      onceId,
+      selector,
+      callback,
+      options as ScheduledOnceOptions,
+    );
+  }
+
+  const startedAt = getTimestamp();
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    continueOnError = false,
+    migrate,
+    ttl,
+    now = Date.now,
+    detailed = false,
+    signal,
+  } = options;
+
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  const version = resolveVersion(options.version);
+  const token = getOnceToken(onceId, version);
+  assertValidMigrate(migrate);
+  assertValidExpiryOptions(ttl, now);
+  const hooks = resolveHooks(options.hooks);
+  const events = resolveOnceEvents(options.emitEvents);
+  assertValidSelectorTypes(selector);
+
+  if (typeof callback !== 'function') {
+    throw new TypeError('callback must be a function');
+  }
+
+  assertNotAborted(signal);
+
+  const elements: T[] = [];
+  const skipped: T[] = [];
+  const failed: OnceFailure<T>[] = [];
+
+  // Quick early return for empty selector string
+  if (typeof selector === 'string' && selector === '') {
+    if (detailed) return createOnceResult(elements, skipped, failed, startedAt);
+    return elements;
+  }
+
+  if (typeof selector === 'string') {
+    assertValidContext(context);
+  }
+
+  const onceKey = getOnceKey(token, markers);
+  const errors: unknown[] = [];
+  const matched = resolveElements<T>(selector, context, options);
+  checkSelection('doOnce', onceId, selector, matched.length);
+  diagnostics?.callback(onceId, callback);
+
+  for (const element of matched) {
+    signal?.throwIfAborted();
+    // Re-check each element: an earlier callback may have processed it, and elements
+    // claimed by a pending doOnceAsync call count as processed
+    if (
+      isProcessed(markers, element, onceId, token, now) ||
+      isInFlight(element, onceKey)
+    ) {
+      emitHook(hooks, 'onSkipped', 'doOnce', onceId, element);
+      if (detailed) skipped.push(element);
+      continue;
+    }
+    emitHook(hooks, 'onBeforeProcess', 'doOnce', onceId, element);
+    let result: void | OnceDisposer;
+    let stale: string[];
+    try {
+      stale = prepareMark(markers, element, onceId, token, version, migrate);
+      result = callback(element);
+    } catch (error) {
+      emitHook(hooks, 'onError', 'doOnce', onceId, element, error);
+      if (detailed) {
+        failed.push({ element, error });
+        continue;
+      }
+      if (!continueOnError) throw error;
+      errors.push(error);
+      continue;
+    }
+    markToken(markers, element, token, stale, getExpiresAt(ttl, now));
+    registerDisposer(element, onceKey, result);
+    registerAbortDisposal(onceId, onceKey, element, options);
+    elements.push(element);
+    dispatchOnceEvent(
+      events,
+      'marked',
+      element,
+      onceId,
+      markers,
+      onceAttribute,
+    );
+    emitHook(hooks, 'onProcessed', 'doOnce', onceId, element);
+  }
+
+  if (detailed) return createOnceResult(elements, skipped, failed, startedAt);
+
+  if (errors.length > 0) {
+    throw createCallbackAggregateError(errors, onceId);
+  }
+
+  return elements;
+}
+
+/**
+ * Awaits an async callback once per element, marking elements only after the callback resolves.
+ *
+ * Elements are claimed as "in progress" before the first callback runs, so a concurrent
+ * `doOnceAsync`, `doOnce`, or `querySelectorOnce` call with the same once id skips them instead
+ * of re-entering the initializer. Callbacks run one element at a time in order, and an element
+ * marked in the meantime is skipped. If a callback rejects, the in-progress claims are released,
+ * the failing element and any remaining elements stay unmarked, and the returned promise rejects.
+ * With `continueOnError`, remaining elements are still processed and the promise rejects with an
+ * `AggregateError` of the failures once all elements have settled. Callbacks that don't return
+ * a promise are not awaited, so their element is marked without yielding.
+ *
+ * @template T - The type of Element to process
+ * @param {string} onceId - Unique identifier to mark elements with
+ * @param {string | Element | Iterable<Element> | ArrayLike<Element>} selector - Elements to process (CSS selector, Element, NodeList, Array, etc.)
+ * @param {Function} callback - Function to execute and await on each unmarked element (may resolve to a disposer)
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to query within (when selector is a string)
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.pierceShadow=false] - Also query inside open shadow roots under the context
+ * @param {boolean} [options.includeSlotted=false] - Also include elements slotted into queried shadow roots
+ * @param {boolean} [options.frames=false] - Also query same-origin iframe documents under the context
+ * @param {string | number} [options.version] - Version of the once id; elements marked with another version are processed again
+ * @param {Function} [options.migrate] - Called with each re-processed element and its previous version
+ * @param {number} [options.ttl] - Milliseconds until the marks expire and elements can be processed again
+ * @param {Function} [options.now=Date.now] - Clock used for mark expiry
+ * @param {boolean} [options.continueOnError=false] - Keep processing after a callback rejects, then reject with an AggregateError
+ * @param {OnceHooks} [options.hooks] - Instrumentation hooks for this call
+ * @param {AbortSignal} [options.signal] - Stops processing and throws its reason (an AbortError) when aborted
+ * @param {boolean} [options.disposeOnAbort=false] - When `signal` aborts, run disposers and remove the once id from processed elements
+ * @param {boolean | OnceEventNames} [options.emitEvents=false] - Dispatch a bubbling 'dom-once:marked' CustomEvent on each newly marked element
+ * @returns {Promise<Element[]>} Elements that were processed (callback resolved and once id added)
+ *
+ * @example
+ * Lazy-load a widget module once per element
+ *
+ * ```ts
+ * await doOnceAsync('chart', '.chart', async (el) => {
+ *   const { mountChart } = await import('./chart.js');
+ *   mountChart(el);
+ * });
+ * ```
+ */
+export async function doOnceAsync<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  callback: (element: T) => Promise<void | OnceDisposer> | void | OnceDisposer,
+  options: DoOnceOptions = {},
+): Promise<T[]> {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    continueOnError = false,
+    migrate,
+    ttl,
+    now = Date.now,
+    signal,
+  } = options;
+
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  const version = resolveVersion(options.version);
+  const token = getOnceToken(onceId, version);
+  assertValidMigrate(migrate);
+  assertValidExpiryOptions(ttl, now);
+  const hooks = resolveHooks(options.hooks);
+  const events = resolveOnceEvents(options.emitEvents);
+  assertValidSelectorTypes(selector);
+
+  if (typeof callback !== 'function') {
+    throw new TypeError('callback must be a function');
+  }
+
+  assertNotAborted(signal);
+
+  // Quick early return for empty selector string
+  if (typeof selector === 'string' && selector === '') {
+    return [];
+  }
+
+  if (typeof selector === 'string') {
+    assertValidContext(context);
+  }
+
+  // Claim every candidate synchronously so concurrent calls skip them
+  const onceKey = getOnceKey(token, markers);
+  const matched = resolveElements<T>(selector, context, options);
+  checkSelection('doOnceAsync', onceId, selector, matched.length);
+  diagnostics?.callback(onceId, callback);
+  const candidates = matched.filter((element) => {
+    if (
+      !isProcessed(markers, element, onceId, token, now) &&
+      claimInFlight(element, onceKey)
+    ) {
+      return true;
+    }
+    emitHook(hooks, 'onSkipped', 'doOnceAsync', onceId, element);
+    return false;
+  });
+
+  const elements: T[] = [];
+  const errors: unknown[] = [];
+  try {
+    for (const element of candidates) {
+      signal?.throwIfAborted();
+      // Re-check each element: it may have been marked while earlier callbacks were awaited
+      if (isProcessed(markers, element, onceId, token, now)) {
+        emitHook(hooks, 'onSkipped', 'doOnceAsync', onceId, element);
+        continue;
+      }
+      emitHook(hooks, 'onBeforeProcess', 'doOnceAsync', onceId, element);
+      let result: void | OnceDisposer;
+      let stale: string[];
+      try {
+        stale = prepareMark(markers, element, onceId, token, version, migrate);
+        // Only await returned promises, so synchronous callbacks mark without yielding
+        const pending = callback(element);
+        result = isPromiseLike(pending) ? await pending : pending;
+      } catch (error) {
+        emitHook(hooks, 'onError', 'doOnceAsync', onceId, element, error);
+        if (!continueOnError) throw error;
+        errors.push(error);
+        continue;
+      }
+      markToken(markers, element, token, stale, getExpiresAt(ttl, now));
+      registerDisposer(element, onceKey, result);
+      registerAbortDisposal(onceId, onceKey, element, options);
+      elements.push(element);
+      dispatchOnceEvent(
+        events,
+        'marked',
+        element,
+        onceId,
+        markers,
+        onceAttribute,
+      );
+      emitHook(hooks, 'onProcessed', 'doOnceAsync', onceId, element);
+    }
+  } finally {
+    for (const element of candidates) {
+      releaseInFlight(element, onceKey);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw createCallbackAggregateError(errors, onceId);
+  }
+
+  return elements;
+}
+
+/**
+ * Executes a callback up to `n` times per element, once per call, counting runs per element.
+ *
+ * Each call runs the callback for every element whose run count for the once id is below `n`,
+ * then increments the count. Elements are marked with the once id from their first run, so
+ * `findOnce` returns them and an element marked by `doOnce` counts as having run once. The count
+ * is read with `getOnceCount` and reset by `removeOnce`. As with `doOnce`, a callback that throws
+ * does not count as a run.
+ *
+ * @template T - The type of Element to process
+ * @param {string} onceId - Unique identifier to count runs with
+ * @param {number} n - Maximum number of runs per element (positive integer)
+ * @param {string | Element | Iterable<Element> | ArrayLike<Element>} selector - Elements to process (CSS selector, Element, NodeList, Array, etc.)
+ * @param {Function} callback - Function to execute on each element, called with the element and its run number (starting at 1)
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to query within (when selector is a string)
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.pierceShadow=false] - Also query inside open shadow roots under the context
+ * @param {boolean} [options.includeSlotted=false] - Also include elements slotted into queried shadow roots
+ * @param {boolean} [options.frames=false] - Also query same-origin iframe documents under the context
+ * @param {boolean} [options.continueOnError=false] - Keep processing after a callback throws, then throw an AggregateError
+ * @param {OnceHooks} [options.hooks] - Instrumentation hooks for this call
+ * @param {AbortSignal} [options.signal] - Stops processing and throws its reason (an AbortError) when aborted
+ * @param {boolean | OnceEventNames} [options.emitEvents=false] - Dispatch a bubbling 'dom-once:marked' CustomEvent on each element's first run
+ * @returns {Element[]} Elements the callback ran for in this call
+ * @throws {AggregateError} When `continueOnError` is set and one or more callbacks threw
+ *
+ * @example
+ * Show a hint the first three times a card renders
+ *
+ * ```ts
+ * doTimes('hint', 3, '.card', (card, run) => showHint(card, { last: run === 3 }));
+ * ```
+ */
+export function doTimes<T extends Element>(
+  onceId: OnceId,
+  n: number,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  callback: (element: T, count: number) => void,
+  options: Omit<
+    DoOnceOptions,
+    'version' | 'migrate' | 'ttl' | 'now' | 'disposeOnAbort'
+  > = {},
+): T[] {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    continueOnError = false,
+    signal,
+  } = options;
+
+  assertValidOnceId(onceId);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new TypeError('n must be a positive integer');
+  }
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  const hooks = resolveHooks(options.hooks);
+  const events = resolveOnceEvents(options.emitEvents);
+  assertValidSelectorTypes(selector);
+
+  if (typeof callback !== 'function') {
+    throw new TypeError('callback must be a function');
+  }
+
+  assertNotAborted(signal);
+
+  // Quick early return for empty selector string
+  if (typeof selector === 'string' && selector === '') {
+    return [];
+  }
+
+  if (typeof selector === 'string') {
+    assertValidContext(context);
+  }
+
+  const elements: T[] = [];
+  const errors: unknown[] = [];
+  const visited = new Set<Element>();
+  const matched = resolveElements<T>(selector, context, options);
+  checkSelection('doTimes', onceId, selector, matched.length);
+
+  for (const element of matched) {
+    signal?.throwIfAborted();
+    // An element listed twice still runs once per call
+    if (visited.has(element)) continue;
+    visited.add(element);
+    const count = getRunCount(markers, element, onceId);
+    if (count >= n) {
+      emitHook(hooks, 'onSkipped', 'doTimes', onceId, element);
+      continue;
+    }
+    emitHook(hooks, 'onBeforeProcess', 'doTimes', onceId, element);
+    try {
+      callback(element, count + 1);
+    } catch (error) {
+      emitHook(hooks, 'onError', 'doTimes', onceId, element, error);
+      if (!continueOnError) throw error;
+      errors.push(error);
+      continue;
+    }
+    const marked = markers.has(element, onceId);
+    markers.add(element, onceId);
+    setMarkRecord(markers, element, 'count', onceId, count + 1);
+    elements.push(element);
+    // Later runs only bump the count, so only the first one marks the element
+    if (!marked) {
+      dispatchOnceEvent(
+        events,
+        'marked',
+        element,
+        onceId,
+        markers,
+        onceAttribute,
+      );
+    }
+    emitHook(hooks, 'onProcessed', 'doTimes', onceId, element);
+  }
+
+  if (errors.length > 0) {
+    throw createCallbackAggregateError(errors, onceId);
+  }
+
+  return elements;
+}
+
+/**
+ * Returns how many times a once id has run for an element.
+ *
+ * Counts runs made by `doTimes`; an element marked with the once id by any other function
+ * counts as one run. Returns 0 for unmarked elements.
+ *
+ * @param {string} onceId - Unique identifier to read the count for
+ * @param {Element} element - Element to read the count from
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {AbortSignal} [options.signal] - Throws its reason (an AbortError) if already aborted
+ * @returns {number} Number of runs for the element
+ *
  * @example
- * Remove from all matching elements
+ * ```ts
+ * if (getOnceCount('hint', card) === 3) card.classList.add('hint-done');
+ * ```
+ */
+export function getOnceCount(
+  onceId: OnceId,
+  element: Element,
+  options: Pick<OnceOptions, 'onceAttribute' | 'store' | 'signal'> = {},
+): number {
+  const { onceAttribute = ONCE_ATTRIBUTE_NAME, store = 'attribute' } = options;
+
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  if (!isElement(element)) {
+    throw new TypeError('element must be an Element');
+  }
+  assertNotAborted(options.signal);
+
+  return getRunCount(markers, element, onceId);
+}
+
+/**
+ * Finds all elements that have been marked with a specific once id.
+ *
+ * This function searches for elements that have a specific once id,
+ * allowing you to retrieve previously processed elements. This is a read-only
+ * operation that does not modify any elements. Marks whose `ttl` has expired are excluded.
+ *
+ * With the default attribute store the lookup is a single `[attr~="id"]` selector query. The
+ * memory store keeps no markup, so it has to check every element in the context instead;
+ * prefer a narrow context when using `store: 'memory'`.
+ *
+ * @template T - The type of Element to find
+ * @param {string} onceId - Unique identifier to search for
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to search within
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.pierceShadow=false] - Also query inside open shadow roots under the context
+ * @param {boolean} [options.includeSlotted=false] - Also include elements slotted into queried shadow roots
+ * @param {boolean} [options.frames=false] - Also query same-origin iframe documents under the context
+ * @param {string | number} [options.version] - Only match this version of the once id (default: any version)
+ * @param {Function} [options.now=Date.now] - Clock used to exclude expired marks
+ * @param {AbortSignal} [options.signal] - Throws its reason (an AbortError) if already aborted
+ * @returns {Element[]} Elements that have been marked with the once id
+ *
+ * @example
+ * Find all initialized buttons
  *
  * ```ts
- * const removed = removeOnce('init', '.processed');
+ * const initializedButtons = findOnce('init');
+ * ```
+ *
+ * @example
+ * Find within a specific container
+ *
+ * ```ts
+ * const processedItems = findOnce('processed', {
+ *   context: document.querySelector('#container')
+ * });
+ * ```
+ *
+ * @example
+ * With custom tracking attribute
+ *
+ * ```ts
+ * const setupWidgets = findOnce('setup', {
+ *   onceAttribute: 'data-initialized'
+ * });
+ * ```
+ */
+export function findOnce<T extends Element>(
+  onceId: OnceId,
+  options: OnceOptions = {},
+): T[] {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    now = Date.now,
+  } = options;
+
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  const version = resolveVersion(options.version, true) ?? ANY_VERSION;
+  assertValidExpiryOptions(undefined, now);
+  assertValidContext(context);
+  assertNotAborted(options.signal);
+
+  if (version === ANY_VERSION) {
+    const matches = (element: Element): boolean =>
+      listVersionTokens(markers, element, onceId).some(
+        (token) => !isExpired(markers, element, token, now),
+      );
+    return querySelectorAllDeep<T>(
+      context,
+      (root) => queryAnyVersion<T>(markers, root, onceId).filter(matches),
+      matches,
+      options,
+    );
+  }
+
+  const token = getOnceToken(onceId, version);
+  return querySelectorAllDeep<T>(
+    context,
+    (root) =>
+      markers
+        .query<T>(root, token)
+        .filter((element) => !isExpired(markers, element, token, now)),
+    (element) => isMarked(markers, element, token, now),
+    options,
+  );
+}
+
+/**
+ * Disposes all elements in a context that are marked with a once id.
+ *
+ * This function finds every element marked with the once id (like `findOnce`), invokes the
+ * disposer registered by the doOnce callback for each one, and removes the once id (like
+ * `removeOnce`). Use it to detach a region before it is swapped out of the DOM.
+ *
+ * @template T - The type of Element to dispose
+ * @param {string} onceId - Unique identifier to dispose
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to search within
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.pierceShadow=false] - Also query inside open shadow roots under the context
+ * @param {boolean} [options.includeSlotted=false] - Also include elements slotted into queried shadow roots
+ * @param {boolean} [options.frames=false] - Also query same-origin iframe documents under the context
+ * @param {string | number} [options.version] - Only match this version of the once id (default: any version)
+ * @param {Function} [options.now=Date.now] - Clock used to exclude expired marks
+ * @param {AbortSignal} [options.signal] - Stops processing and throws its reason (an AbortError) when aborted
+ * @param {boolean | OnceEventNames} [options.emitEvents=false] - Dispatch a bubbling 'dom-once:unmarked' CustomEvent on each unmarked element
+ * @returns {Element[]} Elements that had the once id removed
+ *
+ * @example
+ * Tear down widgets before replacing a region
+ *
+ * ```ts
+ * disposeOnce('widget', { context: region });
+ * region.innerHTML = html;
+ * ```
+ */
+export function disposeOnce<T extends Element>(
+  onceId: OnceId,
+  options: OnceOptions = {},
+): T[] {
+  return removeOnce<T>(onceId, findOnce<T>(onceId, options), options);
+}
+
+/**
+ * Lists every once id marked within a context and the elements that carry it.
+ *
+ * This is a read-only inventory for debug panels and end-to-end assertions. Ids are reported as
+ * stored, so versioned marks appear as `id@version`, and marks whose `ttl` has expired are
+ * included. With the attribute store only elements with the attribute are visited; other stores
+ * have to check every element in the context.
+ *
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [context=document] - Context to scan
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.pierceShadow=false] - Also scan inside open shadow roots under the context
+ * @param {boolean} [options.includeSlotted=false] - Also include elements slotted into scanned shadow roots
+ * @param {boolean} [options.frames=false] - Also scan same-origin iframe documents under the context
+ * @param {AbortSignal} [options.signal] - Throws its reason (an AbortError) if already aborted
+ * @returns {Map<string, Element[]>} Elements per once id, in document order
+ *
+ * @example
+ * ```ts
+ * for (const [onceId, elements] of inspectOnce()) {
+ *   console.log(onceId, elements.length);
+ * }
+ * ```
+ */
+export function inspectOnce(
+  context: Document | DocumentFragment | Element = document,
+  options: Omit<OnceOptions, 'context'> = {},
+): Map<OnceId, Element[]> {
+  const { onceAttribute = ONCE_ATTRIBUTE_NAME, store = 'attribute' } = options;
+
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  assertValidContext(context);
+  assertNotAborted(options.signal);
+
+  const storeAttribute = onceStoreAttributes.get(markers);
+  const selector = storeAttribute ? `[${storeAttribute}]` : '*';
+  const elements = querySelectorAllDeep(
+    context,
+    (root) => Array.from(root.querySelectorAll(selector)),
+    (element) => markers.list(element).length > 0,
+    options,
+  );
+
+  const inventory = new Map<OnceId, Element[]>();
+  for (const element of elements) {
+    for (const onceId of markers.list(element)) {
+      const marked = inventory.get(onceId);
+      if (marked) {
+        marked.push(element);
+      } else {
+        inventory.set(onceId, [element]);
+      }
+    }
+  }
+  return inventory;
+}
+
+/**
+ * Returns the once ids an element is marked with.
+ *
+ * For a runOnceFor target other than an element, returns the once ids of its completed guards
+ * instead; runOnce guards are read from `globalThis`.
+ *
+ * @param {Element | object} element - Element (or runOnceFor target) to read
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {AbortSignal} [options.signal] - Throws its reason (an AbortError) if already aborted
+ * @returns {string[]} Once ids in the order they were added
+ *
+ * @example
+ * ```ts
+ * getOnceIds(button); // ['init', 'tooltip']
+ * getOnceIds(globalThis); // ['shortcuts']
  * ```
+ */
+export function getOnceIds(
+  element: Element | object,
+  options: Pick<OnceOptions, 'onceAttribute' | 'store' | 'signal'> = {},
+): OnceId[] {
+  const { onceAttribute = ONCE_ATTRIBUTE_NAME, store = 'attribute' } = options;
+
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  if (hasRunOnceGuards(element)) {
+    assertNotAborted(options.signal);
+    return Array.from(runOnceResults.get(element)?.keys() ?? []);
+  }
+  if (!isElement(element)) {
+    throw new TypeError('element must be an Element');
+  }
+  assertNotAborted(options.signal);
+
+  return markers.list(element);
+}
+
+/**
+ * Runs doOnce for a selector now and again whenever matching elements are inserted.
+ *
+ * This function calls `doOnce` immediately, then observes the context with a MutationObserver.
+ * Added elements that match the selector, and matching descendants of added subtrees, are
+ * collected and passed to `doOnce` in a single batch per microtask, so large insertions are
+ * processed in one pass. Errors thrown by callbacks during the initial pass propagate; errors
+ * in later batches are thrown from the microtask.
+ *
+ * @template T - The type of Element to process
+ * @param {string} onceId - Unique identifier to mark elements with
+ * @param {string} selector - CSS selector string for elements to process
+ * @param {Function} callback - Function to execute on each unmarked element (may return a disposer)
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to query and observe
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [options.continueOnError=false] - Keep processing after a callback throws, then throw an AggregateError
+ * @param {AbortSignal} [options.signal] - Disconnects the watcher when aborted (throws if already aborted)
+ * @param {boolean} [options.disposeOnAbort=false] - When `signal` aborts, run disposers and remove the once id from processed elements
+ * @returns {OnceWatcher} Handle with a `disconnect()` method to stop observing
+ *
+ * @example
+ * Initialize dropdowns, including ones added by later AJAX swaps
+ *
+ * ```ts
+ * const watcher = watchOnce('dropdown', '.dropdown', initDropdown);
+ * // Later
+ * watcher.disconnect();
+ * ```
+ */
+export function watchOnce<T extends Element>(
+  onceId: OnceId,
+  selector: string,
+  callback: (element: T) => void | OnceDisposer,
+  options: DoOnceOptions = {},
+): OnceWatcher {
+  const { context = document } = options;
+
+  if (typeof selector !== 'string') {
+    throw new TypeError('selector must be a string');
+  }
+
+  // Validates the remaining arguments and processes current matches; matching nothing yet is fine
+  withoutSelectionDiagnostics(() =>
+    doOnce<T>(onceId, selector, callback, options),
+  );
+
+  // Nothing can match an empty selector, so there is nothing to observe
+  if (selector === '') {
+    return { disconnect() {} };
+  }
+
+  const addedRoots = new Set<Element>();
+  let flushScheduled = false;
+
+  const flush = (): void => {
+    flushScheduled = false;
+    const candidates: T[] = [];
+    for (const root of addedRoots) {
+      // Skip subtrees removed again before the batch ran
+      if (!context.contains(root)) continue;
+      if (root.matches(selector)) candidates.push(root as T);
+      candidates.push(...Array.from(root.querySelectorAll<T>(selector)));
+    }
+    addedRoots.clear();
+    if (candidates.length > 0) {
+      doOnce<T>(onceId, candidates, callback, options);
+    }
+  };
+
+  const observer = new MutationObserver((records) => {
+    for (const record of records) {
+      for (const node of Array.from(record.addedNodes)) {
+        if (isElement(node)) addedRoots.add(node as Element);
+      }
+    }
+    if (!flushScheduled && addedRoots.size > 0) {
+      flushScheduled = true;
+      queueMicrotask(flush);
+    }
+  });
+  observer.observe(context, { childList: true, subtree: true });
+
+  return disconnectOnAbort(
+    {
+      disconnect() {
+        observer.disconnect();
+        addedRoots.clear();
+      },
+    },
+    options.signal,
+  );
+}
+
+/**
+ * Runs a detach callback when elements marked with a once id are removed from the context.
+ *
+ * This function observes the context with a MutationObserver. Removed elements marked with the
+ * once id, and marked descendants of removed subtrees (matched like `findOnce`), are passed to
+ * the callback once per microtask batch. Elements that were moved and are still inside the
+ * context when the batch runs are ignored. With `removeOnce: true`, the once id is also removed
+ * (running any disposer registered by doOnce) so re-inserting the element re-initializes it.
+ * Errors thrown by callbacks or disposers don't stop the rest of the batch; they are thrown
+ * together as an `AggregateError` from the microtask afterwards.
+ *
+ * @template T - The type of Element to process
+ * @param {string} onceId - Unique identifier elements are marked with
+ * @param {Function} callback - Function to execute on each removed marked element
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to observe
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {string | number} [options.version] - Only detect this version of the once id (default: any version)
+ * @param {boolean} [options.removeOnce=false] - Also remove the once id from removed elements
+ * @param {AbortSignal} [options.signal] - Disconnects the watcher when aborted (throws if already aborted)
+ * @returns {OnceWatcher} Handle with a `disconnect()` method to stop observing
+ *
+ * @example
+ * Destroy tooltips when their host node is replaced
+ *
+ * ```ts
+ * watchDetachOnce('tooltip', (el) => tooltips.get(el)?.destroy(), {
+ *   removeOnce: true,
+ * });
+ * ```
+ */
+export function watchDetachOnce<T extends Element>(
+  onceId: OnceId,
+  callback: (element: T) => void,
+  options: OnceOptions & { removeOnce?: boolean } = {},
+): OnceWatcher {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    removeOnce: shouldRemoveOnce = false,
+  } = options;
+
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  // Without a version, elements marked with any version of the once id are detected
+  const version = resolveVersion(options.version, true) ?? ANY_VERSION;
+  const token = getOnceToken(onceId, version);
+  assertValidContext(context);
+
+  if (typeof callback !== 'function') {
+    throw new TypeError('callback must be a function');
+  }
+
+  assertNotAborted(options.signal);
+
+  const isDetachedMark = (element: Element): boolean => {
+    if (version === ANY_VERSION) {
+      return listVersionTokens(markers, element, onceId).length > 0;
+    }
+    return markers.has(element, token);
+  };
+  const queryDetachedMarks = (root: Element): T[] => {
+    if (version === ANY_VERSION)
+      return queryAnyVersion<T>(markers, root, onceId);
+    return markers.query<T>(root, token);
+  };
+
+  const removedRoots = new Set<Element>();
+  let flushScheduled = false;
+
+  const flush = (): void => {
+    flushScheduled = false;
+    const detached: T[] = [];
+    for (const root of removedRoots) {
+      // Skip subtrees that were moved within the context
+      if (context.contains(root)) continue;
+      if (isDetachedMark(root)) {
+        detached.push(root as T);
+      }
+      detached.push(...queryDetachedMarks(root));
+    }
+    removedRoots.clear();
+    // A throwing callback must not skip the others or the cleanup, so errors are thrown last
+    const errors: unknown[] = [];
+    for (const element of detached) {
+      try {
+        callback(element);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+    if (shouldRemoveOnce && detached.length > 0) {
+      const result = removeOnce(onceId, detached, {
+        onceAttribute,
+        store,
+        version,
+        emitEvents: options.emitEvents,
+        detailed: true,
+      });
+      errors.push(...result.failed.map((failure) => failure.error));
+    }
+    if (errors.length > 0) {
+      throw createCallbackAggregateError(errors, onceId);
+    }
+  };
+
+  const observer = new MutationObserver((records) => {
+    for (const record of records) {
+      for (const node of Array.from(record.removedNodes)) {
+        if (isElement(node)) {
+          removedRoots.add(node as Element);
+        }
+      }
+    }
+    if (!flushScheduled && removedRoots.size > 0) {
+      flushScheduled = true;
+      queueMicrotask(flush);
+    }
+  });
+  observer.observe(context, { childList: true, subtree: true });
+
+  return disconnectOnAbort(
+    {
+      disconnect() {
+        observer.disconnect();
+        removedRoots.clear();
+      },
+    },
+    options.signal,
+  );
+}
+
+/**
+ * Runs a callback once per element when the element first becomes visible.
+ *
+ * Matching elements that aren't marked yet are observed with an IntersectionObserver. When an
+ * element first intersects, `doOnce` runs for it, marking it with the same once id, so later
+ * `doOnce` calls with that id skip it. Calls with the same `rootMargin` and `threshold` share
+ * one observer; elements are unobserved after their first intersection and the observer is
+ * disconnected once all of its targets were processed. Errors thrown by callbacks are thrown
+ * from the observer callback after the other visible elements were processed (as an
+ * `AggregateError` when several threw), and the failed elements stay unmarked.
+ *
+ * Without IntersectionObserver support, elements are processed immediately.
+ *
+ * @template T - The type of Element to process
+ * @param {string} onceId - Unique identifier to mark elements with
+ * @param {string | Element | Iterable<Element> | ArrayLike<Element>} selector - Elements to process (CSS selector, Element, NodeList, Array, etc.)
+ * @param {Function} callback - Function to execute on each element when it becomes visible (may return a disposer)
+ * @param {Object} [options] - Configuration options (also accepts the doOnce options)
+ * @param {string} [options.rootMargin='0px'] - Margin around the viewport, as for IntersectionObserver
+ * @param {number | number[]} [options.threshold=0] - Visible ratio(s) that count as intersecting
+ * @param {AbortSignal} [options.signal] - Disconnects the watcher when aborted (throws if already aborted)
+ * @param {boolean} [options.disposeOnAbort=false] - When `signal` aborts, run disposers and remove the once id from processed elements
+ * @returns {OnceWatcher} Handle with a `disconnect()` method to stop waiting for pending elements
+ *
+ * @example
+ * Initialize carousels shortly before they scroll into view
+ *
+ * ```ts
+ * doOnceWhenVisible('carousel', '.carousel', initCarousel, {
+ *   rootMargin: '200px',
+ * });
+ * ```
+ */
+export function doOnceWhenVisible<T extends Element>(
+  onceId: OnceId,
+  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+  callback: (element: T) => void | OnceDisposer,
+  options: VisibleOnceOptions = {},
+): OnceWatcher {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+    rootMargin = '0px',
+    threshold = 0,
+    now = Date.now,
+  } = options;
+
+  assertValidOnceId(onceId);
+  assertValidDataAttribute(onceAttribute);
+  const markers = resolveOnceStore(store, onceAttribute);
+  const token = getOnceToken(onceId, resolveVersion(options.version));
+  assertValidMigrate(options.migrate);
+  assertValidExpiryOptions(options.ttl, now);
+  resolveHooks(options.hooks);
+  resolveOnceEvents(options.emitEvents);
+  assertValidSelectorTypes(selector);
+
+  if (typeof callback !== 'function') {
+    throw new TypeError('callback must be a function');
+  }
+
+  assertNotAborted(options.signal);
+
+  if (typeof IntersectionObserver === 'undefined') {
+    doOnce<T>(onceId, selector, callback, options);
+    return { disconnect() {} };
+  }
+
+  // Quick early return for empty selector string
+  if (typeof selector === 'string' && selector === '') {
+    return { disconnect() {} };
+  }
+
+  if (typeof selector === 'string') {
+    assertValidContext(context);
+  }
+
+  const shared = getSharedIntersectionObserver(rootMargin, threshold);
+  const pending = new Set<Element>();
+  const handler = (element: Element): void => {
+    pending.delete(element);
+    doOnce<T>(onceId, element as T, callback, options);
+  };
+
+  for (const element of resolveElements<T>(selector, context, options)) {
+    if (isProcessed(markers, element, onceId, token, now)) continue;
+    let handlers = shared.targets.get(element);
+    if (!handlers) {
+      handlers = new Set();
+      shared.targets.set(element, handlers);
+      shared.observer.observe(element);
+    }
+    handlers.add(handler);
+    pending.add(element);
+  }
+  releaseSharedIntersectionObserver(shared);
+
+  return disconnectOnAbort(
+    {
+      disconnect() {
+        for (const element of pending) {
+          const handlers = shared.targets.get(element);
+          handlers?.delete(handler);
+          if (handlers?.size === 0) {
+            shared.targets.delete(element);
+            shared.observer.unobserve(element);
+          }
+        }
+        pending.clear();
+        releaseSharedIntersectionObserver(shared);
+      },
+    },
+    options.signal,
+  );
+}
+
+/**
+ * Runs a handler the first time an event fires on each element matching a selector.
  *
- * @example
- * Remove from a NodeList
+ * One delegated listener is added to the context in the capture phase, so events that don't
+ * bubble (such as `focus`) are seen too, and elements inserted later are handled without
+ * re-binding. When an event targets a matching element (or a descendant of one) inside the
+ * context, `doOnceAsync` runs the handler for that element and marks it with the once id;
+ * later events on the element, and `doOnce` calls with the same id, skip it. A handler that
+ * returns a promise marks the element only once it resolves, and events while it is pending
+ * are skipped. When the handler throws or rejects, the element stays unmarked, so the next
+ * event retries it, and the error is rethrown in a microtask so it reaches global error
+ * handlers.
  *
- * ```ts
- * const elements = document.querySelectorAll('.item');
- * removeOnce('processed', elements);
- * ```
+ * @template T - The type of Element to process
+ * @template E - The type of Event passed to the handler
+ * @param {string} onceId - Unique identifier to mark elements with
+ * @param {string} eventType - Event type to listen for (e.g., 'click', 'focus')
+ * @param {string} selector - CSS selector string for elements to handle
+ * @param {Function} handler - Function called with the element and the first event on it (may return or resolve to a disposer)
+ * @param {Object} [options] - Configuration options (also accepts the doOnce options)
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [options.context=document] - Context to listen on
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {AbortSignal} [options.signal] - Removes the listener when aborted (throws if already aborted)
+ * @param {boolean} [options.disposeOnAbort=false] - When `signal` aborts, run disposers and remove the once id from handled elements
+ * @returns {OnceDisposer} Function that removes the listener
  *
  * @example
- * Remove from a single element
+ * Load an editor on the first click or focus of each placeholder
  *
  * ```ts
- * const button = document.querySelector('button');
- * removeOnce('clicked', button);
+ * const mount = async (el: HTMLElement) => (await import('./editor.js')).mount(el);
+ * const offClick = onOnce('editor', 'click', '.lazy-editor', mount);
+ * const offFocus = onOnce('editor', 'focus', '.lazy-editor', mount);
  * ```
  */
-export function removeOnce<T extends Element>(
+export function onOnce<T extends Element = Element, E extends Event = Event>(
   onceId: OnceId,
-  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
-  options: {
-    onceAttribute?: DataAttribute;
-    context?: Document | DocumentFragment | Element;
-  } = {},
-): T[] {
-  const { onceAttribute = ONCE_ATTRIBUTE_NAME, context = document } = options;
+  eventType: string,
+  selector: string,
+  handler: (
+    element: T,
+    event: E,
+  ) => Promise<void | OnceDisposer> | void | OnceDisposer,
+  options: Omit<DoOnceOptions, 'continueOnError'> = {},
+): OnceDisposer {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context = document,
+    store = 'attribute',
+  } = options;
 
   assertValidOnceId(onceId);
   assertValidDataAttribute(onceAttribute);
-  assertValidSelectorTypes(selector);
+  resolveOnceStore(store, onceAttribute);
+  resolveVersion(options.version);
+  assertValidMigrate(options.migrate);
+  assertValidExpiryOptions(options.ttl, options.now ?? Date.now);
+  resolveHooks(options.hooks);
+  resolveOnceEvents(options.emitEvents);
 
-  // Quick early return for empty selector string
-  if (typeof selector === 'string' && selector === '') {
-    return [];
+  if (typeof eventType !== 'string' || eventType === '') {
+    throw new TypeError('eventType must be a non-empty string');
   }
 
-  // string selector branch
-  if (typeof selector === 'string') {
-    assertValidContext(context);
+  if (typeof selector !== 'string') {
+    throw new TypeError('selector must be a string');
+  }
 
-    const elements: T[] = [];
-    const results = context.querySelectorAll<T>(selector);
-    for (let i = 0; i < results.length; i++) {
-      const el = results[i];
-      if (hasOnceAttributeValue(el, onceId, onceAttribute)) {
-        removeOnceAttributeValue(el, onceId, onceAttribute);
-        elements.push(el);
-      }
-    }
-    return elements;
+  if (typeof handler !== 'function') {
+    throw new TypeError('handler must be a function');
   }
 
-  const elements: T[] = [];
+  assertNotAborted(options.signal);
 
-  // single Element
-  if (selector instanceof Element) {
-    if (hasOnceAttributeValue(selector, onceId, onceAttribute)) {
-      removeOnceAttributeValue(selector, onceId, onceAttribute);
-      elements.push(selector as T);
-    }
-    return elements;
+  // Nothing can match an empty selector, so there is nothing to listen for
+  if (selector === '') {
+    return () => {};
   }
 
-  // iterable (NodeList, generator, etc.) — iterate with for..of
-  if (isIterable(selector)) {
-    for (const maybeEl of selector as Iterable<unknown>) {
-      if (
-        maybeEl instanceof Element &&
-        hasOnceAttributeValue(maybeEl, onceId, onceAttribute)
-      ) {
-        removeOnceAttributeValue(maybeEl, onceId, onceAttribute);
-        elements.push(maybeEl as T);
-      }
-    }
-    return elements;
-  }
+  assertValidContext(context);
+  // Throws for an invalid selector now rather than on the first event
+  context.querySelector(selector);
 
-  // array-like (HTMLCollection, etc.) — iterate by index
-  if (isArrayLike(selector)) {
-    const list = selector as ArrayLike<unknown>;
-    for (let i = 0, len = list.length; i < len; i++) {
-      const maybeEl = list[i] as unknown;
-      if (
-        maybeEl instanceof Element &&
-        hasOnceAttributeValue(maybeEl, onceId, onceAttribute)
-      ) {
-        removeOnceAttributeValue(maybeEl, onceId, onceAttribute);
-        elements.push(maybeEl as T);
-      }
-    }
-    return elements;
-  }
+  // One callback for all events keeps the debug callback check stable. doOnceAsync calls it
+  // synchronously, so it still sees the event that triggered it
+  let currentEvent: E;
+  const callback = (element: T) => handler(element, currentEvent);
+  const listener = (event: Event): void => {
+    if (!isElement(event.target)) return;
+    const element = (event.target as Element).closest<T>(selector);
+    if (!element || element === context || !context.contains(element)) return;
+    currentEvent = event as E;
+    doOnceAsync<T>(onceId, element, callback, options).catch((error) => {
+      queueMicrotask(() => {
+        throw error;
+      });
+    });
+  };
 
-  return elements; // defensive (should be unreachable)
+  context.addEventListener(eventType, listener, true);
+  const watcher = disconnectOnAbort(
+    {
+      disconnect() {
+        context.removeEventListener(eventType, listener, true);
+      },
+    },
+    options.signal,
+  );
+  return () => watcher.disconnect();
 }
 
 /**
- * Executes a callback once per element, marking elements with a once id to prevent re-execution.
+ * Registers a named behavior that attaches to matching elements once per element.
  *
- * This function executes a callback on elements that haven't been marked with a once id yet,
- * then marks them to prevent future executions with the same once id.
+ * Behaviors run in registration order when `attachBehaviors` is called, and in reverse order
+ * when `detachBehaviors` is called. Each behavior marks elements with its once id (the
+ * behavior name by default) using `doOnce`.
  *
- * @template T - The type of Element to process
- * @param {string} onceId - Unique identifier to mark elements with
- * @param {string | Element | Iterable<Element> | ArrayLike<Element>} selector - Elements to process (CSS selector, Element, NodeList, Array, etc.)
- * @param {Function} callback - Function to execute on each unmarked element
- * @param {Object} [options] - Configuration options
- * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
- * @param {Document | DocumentFragment | Element} [options.context=document] - Context to query within (when selector is a string)
- * @returns {Element[]} Elements that were processed (had callback executed and once id added)
+ * Ordering constraints reorder behaviors around their dependencies: `after` names behaviors
+ * that should run first when they are defined, and `requires` names behaviors that must be
+ * defined and run first; a behavior with `requires` only attaches to elements that already
+ * carry the once ids of every required behavior. Unknown requirements and dependency cycles
+ * are reported with an error when behaviors are attached or detached.
+ *
+ * @template T - The type of Element the behavior applies to
+ * @param {string} name - Unique behavior name (alphanumeric, underscore, hyphen)
+ * @param {OnceBehavior} behavior - Behavior definition
+ * @param {string} behavior.selector - CSS selector for elements to attach to
+ * @param {Function} behavior.attach - Called once per element with the element and context (may return a disposer)
+ * @param {Function} [behavior.detach] - Called per attached element with the element, context, and trigger
+ * @param {string} [behavior.onceId=name] - Once id to mark elements with
+ * @param {string[]} [behavior.after] - Behaviors to run before this one, when defined
+ * @param {string[]} [behavior.requires] - Behaviors that must run first and have marked the element
+ * @throws {Error} When a behavior with the same name is already defined
  *
  * @example
- * Initialize all buttons once
+ * Define a behavior and attach it after each partial render
  *
  * ```ts
- * doOnce('init', 'button', (btn) => {
- *   btn.addEventListener('click', handleClick);
+ * defineBehavior('tooltip', {
+ *   selector: '[data-tooltip]',
+ *   attach: (el) => createTooltip(el),
+ *   detach: (el) => destroyTooltip(el),
  * });
+ * attachBehaviors(region);
  * ```
  *
  * @example
- * Process a NodeList
+ * Only enable AJAX submission on forms that validation attached to
  *
  * ```ts
- * const items = document.querySelectorAll('.item');
- * doOnce('animate', items, (item) => {
- *   item.classList.add('animated');
- * })
+ * defineBehavior('form-ajax', {
+ *   selector: 'form',
+ *   requires: ['form-validate'],
+ *   attach: enableAjaxSubmit,
+ * });
  * ```
+ */
+export function defineBehavior<T extends Element>(
+  name: string,
+  behavior: OnceBehavior<T>,
+): void {
+  registerBehavior(behaviorRegistry, name, behavior);
+}
+
+/**
+ * Unregisters a behavior defined with defineBehavior.
+ *
+ * Elements the behavior was attached to keep their once id; call `detachBehaviors` first to
+ * tear them down.
+ *
+ * @param {string} name - Behavior name
+ * @returns {boolean} True if a behavior was removed
  *
  * @example
- * With custom tracking attribute
+ * ```ts
+ * removeBehavior('tooltip');
+ * ```
+ */
+export function removeBehavior(name: string): boolean {
+  return behaviorRegistry.delete(name);
+}
+
+/**
+ * Attaches all registered behaviors within a context.
+ *
+ * Each behavior runs `doOnce` with its selector and once id, so elements that already carry the
+ * once id are skipped. Behaviors run in dependency order (see `defineBehavior`). An error in one behavior does not prevent the others from attaching;
+ * failures are thrown together as an `AggregateError` after all behaviors have run.
+ *
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [context=document] - Context to attach within
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {AbortSignal} [options.signal] - Stops processing and throws its reason (an AbortError) when aborted
+ * @throws {Error} When a required behavior is undefined or dependencies form a cycle
+ * @throws {AggregateError} When one or more behaviors threw
  *
+ * @example
  * ```ts
- * doOnce('setup', '.widget', setupWidget, {
- *   onceAttribute: 'data-initialized'
- * });
+ * region.innerHTML = html;
+ * attachBehaviors(region);
  * ```
  */
-export function doOnce<T extends Element>(
-  onceId: OnceId,
-  selector: string | Element | Iterable<Element> | ArrayLike<Element>,
-  callback: (element: T) => void,
-  options: {
-    onceAttribute?: DataAttribute;
-    context?: Document | DocumentFragment | Element;
-  } = {},
-): T[] {
-  const { onceAttribute = ONCE_ATTRIBUTE_NAME, context = document } = options;
+export function attachBehaviors(
+  context: Document | DocumentFragment | Element = document,
+  options: Pick<OnceOptions, 'onceAttribute' | 'store' | 'signal'> = {},
+): void {
+  attachRegisteredBehaviors(behaviorRegistry, context, options);
+}
 
-  assertValidOnceId(onceId);
+/**
+ * Detaches all registered behaviors within a context.
+ *
+ * Behaviors run in reverse dependency order. Each behavior's `detach` is called for every
+ * element in the context marked with its once id (any version). With the default 'unload'
+ * trigger, the once id is then removed via `removeOnce` (running any disposer returned by
+ * `attach`), so the elements are attached again by the next `attachBehaviors` call; other
+ * triggers leave the once id in place. Failures are isolated per element: a throwing `detach`
+ * doesn't stop the other elements or the unload, and all failures are thrown together as an
+ * `AggregateError`.
+ *
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [context=document] - Context to detach within
+ * @param {string} [trigger='unload'] - Reason for detaching ('unload', 'move', or 'serialize')
+ * @param {Object} [options] - Configuration options
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {AbortSignal} [options.signal] - Stops processing and throws its reason (an AbortError) when aborted
+ * @throws {Error} When a required behavior is undefined or dependencies form a cycle
+ * @throws {AggregateError} When one or more behaviors threw
+ *
+ * @example
+ * ```ts
+ * detachBehaviors(region);
+ * region.innerHTML = html;
+ * attachBehaviors(region);
+ * ```
+ */
+export function detachBehaviors(
+  context: Document | DocumentFragment | Element = document,
+  trigger: BehaviorDetachTrigger = 'unload',
+  options: Pick<OnceOptions, 'onceAttribute' | 'store' | 'signal'> = {},
+): void {
+  detachRegisteredBehaviors(behaviorRegistry, context, trigger, options);
+}
+
+/**
+ * Returns the store that tracks once ids in a space-separated data attribute.
+ *
+ * This is the default store. Stores are shared per attribute name, so repeated calls with the
+ * same attribute return the same instance (and see the same disposers and in-flight state).
+ * A custom `onceAttribute` option is ignored when a store object is passed.
+ *
+ * @param {string} [onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @returns {OnceStore} Attribute-backed store
+ *
+ * @example
+ * ```ts
+ * const store = attributeStore('data-acme-once');
+ * doOnce('init', '.widget', initWidget, { store });
+ * ```
+ */
+export function attributeStore(
+  onceAttribute: DataAttribute = ONCE_ATTRIBUTE_NAME,
+): OnceStore {
   assertValidDataAttribute(onceAttribute);
-  assertValidSelectorTypes(selector);
 
-  if (typeof callback !== 'function') {
-    throw new TypeError('callback must be a function');
-  }
+  const cached = attributeStores.get(onceAttribute);
+  if (cached) return cached;
 
-  // Quick early return for empty selector string
-  if (typeof selector === 'string' && selector === '') {
-    return [];
-  }
+  const store: OnceStore = {
+    has(element, onceId) {
+      const value = element.getAttribute(onceAttribute);
+      if (!value) return false;
 
-  // string selector branch
-  if (typeof selector === 'string') {
-    const elements = querySelectorOnce<T>(onceId, selector, {
-      onceAttribute,
-      context,
-    });
-    for (const element of elements) {
-      callback(element);
-    }
-    return elements;
-  }
+      // Use CSS selector matching for better performance
+      return element.matches(`[${onceAttribute}~="${onceId}"]`);
+    },
+    add(element, onceId) {
+      const ids = parseOnceIds(element.getAttribute(onceAttribute));
+      if (ids.includes(onceId)) return;
+      ids.push(onceId);
+      element.setAttribute(onceAttribute, ids.join(' '));
+    },
+    remove(element, onceId) {
+      const value = element.getAttribute(onceAttribute);
+      if (!value) return;
 
-  const elements: T[] = [];
+      const filtered = parseOnceIds(value).filter((id) => id !== onceId);
+      if (filtered.length === 0) {
+        element.removeAttribute(onceAttribute);
+      } else {
+        element.setAttribute(onceAttribute, filtered.join(' '));
+      }
+    },
+    list(element) {
+      return parseOnceIds(element.getAttribute(onceAttribute));
+    },
+    query<T extends Element>(
+      context: Document | DocumentFragment | Element,
+      onceId: OnceId,
+    ): T[] {
+      return Array.from(
+        context.querySelectorAll<T>(`[${onceAttribute}~="${onceId}"]`),
+      );
+    },
+  };
+  attributeStores.set(onceAttribute, store);
+  onceStoreAttributes.set(store, onceAttribute);
+  return store;
+}
 
-  // single Element
-  if (selector instanceof Element) {
-    if (hasOnceAttributeValue(selector, onceId, onceAttribute)) return elements;
-    callback(selector as T);
-    addOnceAttributeValue(selector, onceId, onceAttribute);
-    elements.push(selector as T);
-    return elements;
-  }
+/**
+ * Creates a store that tracks once ids in memory, without touching the DOM.
+ *
+ * Each call returns a new, isolated store backed by a `WeakMap<Element, Set<OnceId>>`; keep a
+ * reference and pass the same instance to every call. (`store: 'memory'` uses a shared memory
+ * store per `onceAttribute` instead.) Querying has no attribute to select on, so `query`
+ * checks every element in the context.
+ *
+ * @returns {OnceStore} Memory-backed store
+ *
+ * @example
+ * ```ts
+ * const store = memoryStore();
+ * doOnce('init', '.widget', initWidget, { store });
+ * findOnce('init', { store });
+ * ```
+ */
+export function memoryStore(): OnceStore {
+  const markers = new WeakMap<Element, Set<OnceId>>();
 
-  // iterable (NodeList, generator, etc.) — iterate with for..of
-  if (isIterable(selector)) {
-    for (const maybeEl of selector as Iterable<unknown>) {
-      if (
-        maybeEl instanceof Element &&
-        !hasOnceAttributeValue(maybeEl, onceId, onceAttribute)
-      ) {
-        callback(maybeEl as T);
-        addOnceAttributeValue(maybeEl, onceId, onceAttribute);
-        elements.push(maybeEl as T);
+  return {
+    has(element, onceId) {
+      return markers.get(element)?.has(onceId) ?? false;
+    },
+    add(element, onceId) {
+      let onceIds = markers.get(element);
+      if (!onceIds) {
+        onceIds = new Set();
+        markers.set(element, onceIds);
       }
-    }
-    return elements;
-  }
+      onceIds.add(onceId);
+    },
+    remove(element, onceId) {
+      const onceIds = markers.get(element);
+      if (!onceIds) return;
+      onceIds.delete(onceId);
+      if (onceIds.size === 0) markers.delete(element);
+    },
+    list(element) {
+      return Array.from(markers.get(element) ?? []);
+    },
+    // No attribute to select on, so every element in the context is checked
+    query<T extends Element>(
+      context: Document | DocumentFragment | Element,
+      onceId: OnceId,
+    ): T[] {
+      return Array.from(context.querySelectorAll<T>('*')).filter(
+        (element) => markers.get(element)?.has(onceId) ?? false,
+      );
+    },
+  };
+}
 
-  // array-like (HTMLCollection, etc.) — iterate by index
-  if (isArrayLike(selector)) {
-    const list = selector as ArrayLike<unknown>;
-    for (let i = 0, len = list.length; i < len; i++) {
-      const maybeEl = list[i] as unknown;
-      if (
-        maybeEl instanceof Element &&
-        !hasOnceAttributeValue(maybeEl, onceId, onceAttribute)
-      ) {
-        callback(maybeEl as T);
-        addOnceAttributeValue(maybeEl, onceId, onceAttribute);
-        elements.push(maybeEl as T);
-      }
+/**
+ * Creates an instance whose functions share default options.
+ *
+ * The defaults are validated once when the instance is created. Each bound function merges its
+ * own options over the defaults, so individual calls can still override them; only `hooks` are
+ * combined, so hooks passed to a call run in addition to the instance hooks. Instances with
+ * different attributes or stores are fully isolated from each other, which lets several
+ * libraries use dom-once on the same page. Each instance also has its own behavior registry:
+ * its `attachBehaviors` only runs behaviors defined with its own `defineBehavior`.
+ *
+ * @param {Object} [defaults] - Default options for every bound function
+ * @param {string} [defaults.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {Document | DocumentFragment | ShadowRoot | Element} [defaults.context=document] - Default context
+ * @param {string | OnceStore} [defaults.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @param {boolean} [defaults.pierceShadow=false] - Also query inside open shadow roots under the context
+ * @param {boolean} [defaults.includeSlotted=false] - Also include elements slotted into queried shadow roots
+ * @param {boolean} [defaults.frames=false] - Also query same-origin iframe documents under the context
+ * @param {string | number} [defaults.version] - Version of the once id
+ * @param {OnceHooks} [defaults.hooks] - Instrumentation hooks for the instance's calls
+ * @returns {OnceInstance} Object with bound querySelectorOnce, doOnce, removeOnce, findOnce, etc.
+ *
+ * @example
+ * ```ts
+ * const once = createOnce({ onceAttribute: 'data-acme-once', context: appRoot });
+ * once.doOnce('init', '.widget', initWidget);
+ * once.findOnce('init');
+ * ```
+ */
+export function createOnce(defaults: OnceOptions = {}): OnceInstance {
+  const {
+    onceAttribute = ONCE_ATTRIBUTE_NAME,
+    context,
+    store = 'attribute',
+  } = defaults;
+
+  assertValidDataAttribute(onceAttribute);
+  if (context !== undefined) assertValidContext(context);
+  resolveOnceStore(store, onceAttribute);
+  if (defaults.hooks !== undefined) assertValidHooks(defaults.hooks);
+
+  const base: OnceOptions = { ...defaults, onceAttribute, store };
+  // Behaviors are per instance, so attaching never runs another library's behaviors
+  const behaviors: BehaviorRegistry = new Map();
+
+  // Hooks passed to a call run after the instance hooks instead of replacing them
+  const withDefaults = <O extends OnceOptions>(options?: O): O => {
+    const merged = { ...base, ...options } as O;
+    if (base.hooks && options?.hooks && options.hooks !== base.hooks) {
+      assertValidHooks(options.hooks);
+      merged.hooks = mergeHooks(base.hooks, options.hooks);
     }
-    return elements;
-  }
+    return merged;
+  };
 
-  return []; // defensive (should be unreachable)
+  // Object literal methods can't declare overloads, so the functions with a detailed mode
+  // forward their options as-is and are cast back to the overloaded signatures
+  return {
+    querySelectorOnce: (<T extends Element>(
+      onceId: OnceId,
+      selector: string,
+      options?: OnceOptions & Partial<DetailedOption>,
+    ) =>
+      querySelectorOnce<T>(
+        onceId,
+        selector,
+        withDefaults(options) as OnceOptions & DetailedOption,
+      )) as typeof querySelectorOnce,
+    doOnce: (<T extends Element>(
+      onceId: OnceId,
+      selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+      callback: (element: T) => void | OnceDisposer,
+      options?: DoOnceOptions &
+        Partial<DetailedOption> &
+        Partial<ScheduledOnceOptions>,
+    ) =>
+      doOnce<T>(
+        onceId,
+        selector,
+        callback,
+        withDefaults(options) as DoOnceOptions & DetailedOption,
+      )) as typeof doOnce,
+    doOnceAsync<T extends Element>(
+      onceId: OnceId,
+      selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+      callback: (
+        element: T,
+      ) => Promise<void | OnceDisposer> | void | OnceDisposer,
+      options?: DoOnceOptions,
+    ): Promise<T[]> {
+      return doOnceAsync<T>(onceId, selector, callback, withDefaults(options));
+    },
+    doTimes<T extends Element>(
+      onceId: OnceId,
+      n: number,
+      selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+      callback: (element: T, count: number) => void,
+      options?: Omit<
+        DoOnceOptions,
+        'version' | 'migrate' | 'ttl' | 'now' | 'disposeOnAbort'
+      >,
+    ): T[] {
+      return doTimes<T>(onceId, n, selector, callback, withDefaults(options));
+    },
+    getOnceCount(
+      onceId: OnceId,
+      element: Element,
+      options?: Pick<OnceOptions, 'onceAttribute' | 'store'>,
+    ): number {
+      return getOnceCount(onceId, element, {
+        onceAttribute,
+        store,
+        ...options,
+      });
+    },
+    removeOnce: (<T extends Element>(
+      onceId: OnceId,
+      selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+      options?: OnceOptions & Partial<DetailedOption>,
+    ) =>
+      removeOnce<T>(
+        onceId,
+        selector,
+        withDefaults(options) as OnceOptions & DetailedOption,
+      )) as typeof removeOnce,
+    findOnce<T extends Element>(onceId: OnceId, options?: OnceOptions): T[] {
+      return findOnce<T>(onceId, withDefaults(options));
+    },
+    disposeOnce<T extends Element>(onceId: OnceId, options?: OnceOptions): T[] {
+      return disposeOnce<T>(onceId, withDefaults(options));
+    },
+    watchOnce<T extends Element>(
+      onceId: OnceId,
+      selector: string,
+      callback: (element: T) => void | OnceDisposer,
+      options?: DoOnceOptions,
+    ): OnceWatcher {
+      return watchOnce<T>(onceId, selector, callback, withDefaults(options));
+    },
+    watchDetachOnce<T extends Element>(
+      onceId: OnceId,
+      callback: (element: T) => void,
+      options?: OnceOptions & { removeOnce?: boolean },
+    ): OnceWatcher {
+      return watchDetachOnce<T>(onceId, callback, withDefaults(options));
+    },
+    doOnceWhenVisible<T extends Element>(
+      onceId: OnceId,
+      selector: string | Element | Iterable<Element> | ArrayLike<Element>,
+      callback: (element: T) => void | OnceDisposer,
+      options?: VisibleOnceOptions,
+    ): OnceWatcher {
+      return doOnceWhenVisible<T>(
+        onceId,
+        selector,
+        callback,
+        withDefaults(options),
+      );
+    },
+    onOnce<T extends Element = Element, E extends Event = Event>(
+      onceId: OnceId,
+      eventType: string,
+      selector: string,
+      handler: (
+        element: T,
+        event: E,
+      ) => Promise<void | OnceDisposer> | void | OnceDisposer,
+      options?: Omit<DoOnceOptions, 'continueOnError'>,
+    ): OnceDisposer {
+      return onOnce<T, E>(
+        onceId,
+        eventType,
+        selector,
+        handler,
+        withDefaults(options),
+      );
+    },
+    attachBehaviors(
+      behaviorContext: Document | DocumentFragment | Element = base.context ??
+        document,
+      options?: Pick<OnceOptions, 'onceAttribute' | 'store' | 'signal'>,
+    ): void {
+      attachRegisteredBehaviors(behaviors, behaviorContext, {
+        onceAttribute,
+        store,
+        signal: base.signal,
+        ...options,
+      });
+    },
+    detachBehaviors(
+      behaviorContext: Document | DocumentFragment | Element = base.context ??
+        document,
+      trigger: BehaviorDetachTrigger = 'unload',
+      options?: Pick<OnceOptions, 'onceAttribute' | 'store' | 'signal'>,
+    ): void {
+      detachRegisteredBehaviors(behaviors, behaviorContext, trigger, {
+        onceAttribute,
+        store,
+        signal: base.signal,
+        ...options,
+      });
+    },
+    defineBehavior<T extends Element>(
+      name: string,
+      behavior: OnceBehavior<T>,
+    ): void {
+      registerBehavior(behaviors, name, behavior);
+    },
+    removeBehavior(name: string): boolean {
+      return behaviors.delete(name);
+    },
+    inspectOnce(
+      inspectContext: Document | DocumentFragment | Element = base.context ??
+        document,
+      options?: Omit<OnceOptions, 'context'>,
+    ): Map<OnceId, Element[]> {
+      return inspectOnce(inspectContext, withDefaults(options));
+    },
+    getOnceIds(
+      element: Element | object,
+      options?: Pick<OnceOptions, 'onceAttribute' | 'store'>,
+    ): OnceId[] {
+      return getOnceIds(element, { onceAttribute, store, ...options });
+    },
+  };
 }
 
 /**
- * Finds all elements that have been marked with a specific once id.
+ * Enables or disables debug mode, which logs console warnings for common silent no-ops.
  *
- * This function searches for elements that have a specific once id,
- * allowing you to retrieve previously processed elements. This is a read-only
- * operation that does not modify any elements.
+ * In debug mode, each warning is a collapsed console group with details and a stack trace
+ * pointing at the call site. It warns when:
+ * - a selector matches no elements, or an empty collection is passed
+ * - a selector collection contains values that are not Elements (they are skipped)
+ * - the same once id is used with callbacks from different sources
+ * - an element receives more than `maxOnceIds` once ids
  *
- * @template T - The type of Element to find
- * @param {string} onceId - Unique identifier to search for
+ * The diagnostics are only referenced from this function, so bundlers drop them from builds
+ * that never import `setDebug`.
+ *
+ * @param {boolean} enabled - Whether debug mode is on
  * @param {Object} [options] - Configuration options
- * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
- * @param {Document | DocumentFragment | Element} [options.context=document] - Context to search within
- * @returns {Element[]} Elements that have been marked with the once id
+ * @param {number} [options.maxOnceIds=10] - Warn when an element carries more once ids than this
+ * @throws {TypeError} When maxOnceIds is not a positive integer
  *
  * @example
- * Find all initialized buttons
+ * ```ts
+ * if (import.meta.env.DEV) setDebug(true, { maxOnceIds: 5 });
+ * ```
+ */
+export function setDebug(enabled: boolean, options: DebugOptions = {}): void {
+  const { maxOnceIds = 10 } = options;
+  if (!Number.isInteger(maxOnceIds) || maxOnceIds < 1) {
+    throw new TypeError('maxOnceIds must be a positive integer');
+  }
+  diagnostics = enabled ? createDiagnostics(maxOnceIds) : undefined;
+}
+
+/**
+ * Adds instrumentation hooks for every querySelectorOnce, doOnce, and removeOnce call.
+ *
+ * Hooks run synchronously per element, in the order they were added, before hooks passed with
+ * the `hooks` option. Errors thrown by hooks propagate to the caller. When no hooks are added or
+ * passed, no hook contexts are created.
+ *
+ * @param {OnceHooks} hooks - Object with any of `onBeforeProcess`, `onProcessed`, `onSkipped`, `onRemoved`, and `onError`
+ * @throws {TypeError} When hooks is not an object
  *
+ * @example
  * ```ts
- * const initializedButtons = findOnce('init');
+ * addOnceHooks({
+ *   onProcessed: ({ onceId }) => metrics.increment(`once.${onceId}`),
+ *   onError: ({ onceId }, error) => logger.error(onceId, error),
+ * });
  * ```
+ */
+export function addOnceHooks(hooks: OnceHooks): void {
+  assertValidHooks(hooks);
+  globalHooks.add(hooks);
+}
+
+/**
+ * Removes hooks added with addOnceHooks.
+ *
+ * @param {OnceHooks} hooks - The same object passed to addOnceHooks
+ * @returns {boolean} True if the hooks were removed
  *
  * @example
- * Find within a specific container
+ * ```ts
+ * removeOnceHooks(tracing);
+ * ```
+ */
+export function removeOnceHooks(hooks: OnceHooks): boolean {
+  return globalHooks.delete(hooks);
+}
+
+/**
+ * Creates hooks that record User Timing entries named after the once id.
+ *
+ * Each processed element gets a `<prefix>:<onceId>` measure spanning its callback, and each
+ * removal a `<prefix>:<onceId>:removed` mark. Entries show up in the browser's performance panel
+ * and in `performance.getEntriesByName`. Without the User Timing API the hooks do nothing, and
+ * User Timing errors are ignored so they never affect processing.
  *
+ * @param {string} [prefix='dom-once'] - Prefix for entry names
+ * @returns {OnceHooks} Hooks to pass to addOnceHooks or the `hooks` option
+ *
+ * @example
  * ```ts
- * const processedItems = findOnce('processed', {
- *   context: document.querySelector('#container')
- * });
+ * addOnceHooks(performanceHooks());
  * ```
+ */
+export function performanceHooks(prefix = 'dom-once'): OnceHooks {
+  const supported =
+    typeof performance !== 'undefined' &&
+    typeof performance.mark === 'function' &&
+    typeof performance.measure === 'function';
+  if (!supported) return {};
+
+  // Start times are kept per element and once id, so nested calls with the same id (e.g. a
+  // tree initializer processing nested nodes) don't clobber each other's measures
+  const starts: WeakMap<Element, Map<OnceId, number>> = new WeakMap();
+  const takeStart = (element: Element, onceId: OnceId): number | undefined => {
+    const started = starts.get(element);
+    const start = started?.get(onceId);
+    started?.delete(onceId);
+    return start;
+  };
+  // Recording timings must never break processing
+  const record = (fn: () => void): void => {
+    try {
+      fn();
+    } catch {
+      // Ignore User Timing errors
+    }
+  };
+
+  return {
+    onBeforeProcess({ onceId, element }) {
+      let started = starts.get(element);
+      if (!started) {
+        started = new Map();
+        starts.set(element, started);
+      }
+      started.set(onceId, performance.now());
+    },
+    onProcessed({ onceId, element }) {
+      const start = takeStart(element, onceId);
+      if (start === undefined) return;
+      record(() =>
+        performance.measure(`${prefix}:${onceId}`, {
+          start,
+          end: performance.now(),
+        }),
+      );
+    },
+    onRemoved({ onceId }) {
+      record(() => performance.mark(`${prefix}:${onceId}:removed`));
+    },
+    onError({ onceId, element }) {
+      takeStart(element, onceId);
+    },
+  };
+}
+
+/**
+ * Runs a function once per page and returns its memoized result on every call.
+ *
+ * For guards that aren't tied to elements, like registering a global shortcut or loading a
+ * script. If the function throws, the once id is not marked and the next call runs it again.
+ * A returned promise is memoized as-is, including when it rejects. Calling `runOnce` with the
+ * same once id from inside the function throws instead of recursing.
+ *
+ * This is `runOnceFor(globalThis, onceId, fn)`: page guards are listed by
+ * `getOnceIds(globalThis)` and reset by `removeOnce(onceId, globalThis)`.
+ *
+ * @param {string} onceId - Unique identifier (letters, numbers, underscores, hyphens only)
+ * @param {Function} fn - Function to run
+ * @returns {R} The result of the first successful invocation
+ * @throws {Error} When onceId is invalid, fn throws, or fn calls runOnce with the same once id
+ * @throws {TypeError} When fn is not a function
  *
  * @example
- * With custom tracking attribute
+ * ```ts
+ * runOnce('shortcuts', () => document.addEventListener('keydown', onKeydown));
+ * const analytics = await runOnce('analytics', () => import('./analytics'));
+ * ```
+ */
+export function runOnce<R>(onceId: OnceId, fn: () => R): R {
+  if (typeof fn !== 'function') {
+    throw new TypeError('fn must be a function');
+  }
+  return runOnceFor(globalThis, onceId, () => fn());
+}
+
+/**
+ * Runs a function once per object and returns its memoized result on every call for that object.
+ *
+ * Results are held weakly, so guards disappear with their target. If the function throws, the
+ * once id is not marked for the target and the next call runs it again. A nested call for the
+ * same target and once id throws instead of recursing.
+ *
+ * Guards share the reset and inspection functions of element marks. An element target is
+ * marked with the once id like `doOnce` would, so `findOnce`, `inspectOnce`, and `getOnceIds`
+ * report the guard and `removeOnce` resets it. For other targets, `getOnceIds(target)` lists
+ * the completed guards and `removeOnce(onceId, target)` resets one.
+ *
+ * @param {object} target - Object (or function) to guard
+ * @param {string} onceId - Unique identifier (letters, numbers, underscores, hyphens only)
+ * @param {Function} fn - Function to run, called with the target
+ * @param {Object} [options] - Configuration options for element targets
+ * @param {string} [options.onceAttribute='data-dom-once'] - Data attribute name for tracking (must start with 'data-')
+ * @param {string | OnceStore} [options.store='attribute'] - Where once markers are stored ('attribute', 'memory', or a OnceStore)
+ * @returns {R} The result of the first successful invocation for the target
+ * @throws {Error} When onceId is invalid or fn throws
+ * @throws {TypeError} When target is not an object or fn is not a function
  *
+ * @example
  * ```ts
- * const setupWidgets = findOnce('setup', {
- *   onceAttribute: 'data-initialized'
- * });
+ * runOnceFor(HTMLElement.prototype, 'patch-focus', (proto) => patchFocus(proto));
+ * removeOnce('patch-focus', HTMLElement.prototype); // Runs again on the next call
  * ```
  */
-export function findOnce<T extends Element>(
+export function runOnceFor<O extends object, R>(
+  target: O,
   onceId: OnceId,
-  options: {
-    onceAttribute?: DataAttribute;
-    context?: Document | DocumentFragment | Element;
-  } = {},
-): T[] {
-  const { onceAttribute = ONCE_ATTRIBUTE_NAME, context = document } = options;
+  fn: (target: O) => R,
+  options: Pick<OnceOptions, 'onceAttribute' | 'store'> = {},
+): R {
+  const { onceAttribute = ONCE_ATTRIBUTE_NAME, store = 'attribute' } = options;
 
+  assertValidRunOnceTarget(target);
   assertValidOnceId(onceId);
   assertValidDataAttribute(onceAttribute);
-  assertValidContext(context);
+  const markers = resolveOnceStore(store, onceAttribute);
+  if (typeof fn !== 'function') {
+    throw new TypeError('fn must be a function');
+  }
 
-  return Array.from(
-    context.querySelectorAll<T>(`[${onceAttribute}~="${onceId}"]`),
-  );
+  // An element's guard only counts while the element carries the mark, so removeOnce resets it
+  const element = isElementTarget(target) ? target : undefined;
+  const memoized = element ? elementRunOnceResults : runOnceResults;
+  const key = element ? getOnceKey(onceId, markers) : onceId;
+  const existing = memoized.get(target)?.get(key);
+  if (existing && (!element || markers.has(element, onceId))) {
+    return existing.result as R;
+  }
+
+  // A nested call with the same once id has no result to return yet and would recurse forever
+  let running = runOnceInFlight.get(target);
+  if (running?.has(onceId)) {
+    throw new Error(`runOnce "${onceId}" was called again while running`);
+  }
+  if (!running) {
+    running = new Set();
+    runOnceInFlight.set(target, running);
+  }
+  running.add(onceId);
+  let result: R;
+  try {
+    result = fn(target);
+  } finally {
+    running.delete(onceId);
+  }
+
+  if (element) markers.add(element, onceId);
+  let results = memoized.get(target);
+  if (!results) {
+    results = new Map();
+    memoized.set(target, results);
+  }
+  results.set(key, { result });
+  return result;
 }
 // #endregion PUBLIC_API
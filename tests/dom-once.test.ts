@@ -1,17 +1,47 @@
 // @vitest-environment happy-dom
 
-import { expect, test, describe, beforeEach } from 'vitest';
+import { expect, test, describe, beforeEach, afterEach, vi } from 'vitest';
 import {
   querySelectorOnce,
   removeOnce,
   doOnce,
+  doOnceAsync,
+  doTimes,
+  getOnceCount,
   findOnce,
+  disposeOnce,
+  watchOnce,
+  watchDetachOnce,
+  attributeStore,
+  memoryStore,
+  createOnce,
+  defineBehavior,
+  removeBehavior,
+  attachBehaviors,
+  detachBehaviors,
+  runOnce,
+  runOnceFor,
+  addOnceHooks,
+  removeOnceHooks,
+  performanceHooks,
+  setDebug,
+  inspectOnce,
+  getOnceIds,
+  doOnceWhenVisible,
+  onOnce,
 } from '../src/dom-once';
+import type { OnceHooks, OnceStore, VisibleOnceOptions } from '../src/dom-once';
 import { Window } from 'happy-dom';
 
 const window = new Window({ url: 'https://localhost:8080' });
 const document = window.document;
 
+/** Waits for MutationObserver callbacks and batched microtasks to run. */
+const flushMutations = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** The shared test document, typed as the DOM Document the options expect. */
+const context = () => document as unknown as Document;
+
 describe('querySelectorOnce', () => {
   beforeEach(() => {
     // Clear the document before each test
@@ -109,12 +139,14 @@ describe('querySelectorOnce', () => {
     test('invalid context throws error', () => {
       // @ts-expect-error - Testing invalid context
       expect(() => querySelectorOnce('id', 'div', { context: null })).toThrow(
-        'context must be a Document, DocumentFragment, or Element',
+        'context must be a Document, DocumentFragment, ShadowRoot, or Element',
       );
       expect(() =>
         // @ts-expect-error - Testing invalid context
         querySelectorOnce('id', 'div', { context: 'string' }),
-      ).toThrow('context must be a Document, DocumentFragment, or Element');
+      ).toThrow(
+        'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+      );
     });
 
     test('valid contexts should pass', () => {
@@ -505,6 +537,97 @@ describe('removeOnce', () => {
     const result = removeOnce('test', arrayLike as any);
     expect(result).toEqual([el1, el2]);
   });
+
+  test('removeOnce invokes the disposer returned by doOnce before removing the id', () => {
+    const el = document.createElement('div');
+    const seen: (string | null)[] = [];
+    doOnce('test', el as unknown as HTMLDivElement, () => () => {
+      seen.push(el.getAttribute('data-dom-once'));
+    });
+
+    removeOnce('test', el as unknown as HTMLDivElement);
+
+    expect(seen).toEqual(['test']);
+    expect(el.hasAttribute('data-dom-once')).toBe(false);
+  });
+
+  test('removeOnce invokes each disposer only once', () => {
+    const el = document.createElement('div');
+    let disposed = 0;
+    doOnce('test', el as unknown as HTMLDivElement, () => () => {
+      disposed++;
+    });
+
+    removeOnce('test', el as unknown as HTMLDivElement);
+    removeOnce('test', el as unknown as HTMLDivElement);
+
+    expect(disposed).toBe(1);
+  });
+
+  test('removeOnce only invokes the disposer for the removed once id', () => {
+    const el = document.createElement('div');
+    const disposed: string[] = [];
+    doOnce('first', el as unknown as HTMLDivElement, () => () => {
+      disposed.push('first');
+    });
+    doOnce('second', el as unknown as HTMLDivElement, () => () => {
+      disposed.push('second');
+    });
+
+    removeOnce('second', el as unknown as HTMLDivElement);
+
+    expect(disposed).toEqual(['second']);
+    expect(el.getAttribute('data-dom-once')).toBe('first');
+  });
+
+  test('removeOnce keys disposers by onceAttribute', () => {
+    const el = document.createElement('div');
+    let disposed = 0;
+    doOnce(
+      'test',
+      el as unknown as HTMLDivElement,
+      () => () => {
+        disposed++;
+      },
+      { onceAttribute: 'data-custom' },
+    );
+
+    removeOnce('test', el as unknown as HTMLDivElement);
+    expect(disposed).toBe(0);
+
+    removeOnce('test', el as unknown as HTMLDivElement, {
+      onceAttribute: 'data-custom',
+    });
+    expect(disposed).toBe(1);
+  });
+
+  test('removeOnce keeps the once id when the disposer throws', () => {
+    const el = document.createElement('div');
+    doOnce('test', el as unknown as HTMLDivElement, () => () => {
+      throw new Error('Dispose error');
+    });
+
+    expect(() => removeOnce('test', el as unknown as HTMLDivElement)).toThrow(
+      'Dispose error',
+    );
+    expect(el.getAttribute('data-dom-once')).toBe('test');
+  });
+
+  test('removeOnce invokes disposers resolved by doOnceAsync', async () => {
+    const el = document.createElement('div');
+    let disposed = 0;
+    await doOnceAsync(
+      'test',
+      el as unknown as HTMLDivElement,
+      async () => () => {
+        disposed++;
+      },
+    );
+
+    removeOnce('test', el as unknown as HTMLDivElement);
+
+    expect(disposed).toBe(1);
+  });
 });
 
 describe('doOnce', () => {
@@ -586,12 +709,14 @@ describe('doOnce', () => {
       const callback = () => {};
       // @ts-expect-error - Testing invalid context
       expect(() => doOnce('id', 'div', callback, { context: null })).toThrow(
-        'context must be a Document, DocumentFragment, or Element',
+        'context must be a Document, DocumentFragment, ShadowRoot, or Element',
       );
       expect(() =>
         // @ts-expect-error - Testing invalid context
         doOnce('id', 'div', callback, { context: 'string' }),
-      ).toThrow('context must be a Document, DocumentFragment, or Element');
+      ).toThrow(
+        'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+      );
     });
   });
 
@@ -1383,6 +1508,131 @@ describe('doOnce', () => {
       expect(callbackExecuted).toBe(true);
     });
   });
+
+  describe('transactional marking', () => {
+    test('string selector marks element only after callback', () => {
+      document.body.innerHTML = '<div class="test"></div>';
+      const seen: (string | null)[] = [];
+
+      doOnce(
+        'my-id',
+        '.test',
+        (element) => {
+          seen.push(element.getAttribute('data-dom-once'));
+        },
+        { context: document as unknown as Document },
+      );
+
+      expect(seen).toEqual([null]);
+    });
+
+    test('string selector leaves failing and remaining elements unmarked', () => {
+      document.body.innerHTML =
+        '<div class="test" id="a"></div><div class="test" id="b"></div><div class="test" id="c"></div>';
+
+      expect(() =>
+        doOnce(
+          'my-id',
+          '.test',
+          (element) => {
+            if (element.id === 'b') throw new Error('Test error');
+          },
+          { context: document as unknown as Document },
+        ),
+      ).toThrow('Test error');
+
+      expect(document.getElementById('a')?.getAttribute('data-dom-once')).toBe(
+        'my-id',
+      );
+      expect(document.getElementById('b')?.hasAttribute('data-dom-once')).toBe(
+        false,
+      );
+      expect(document.getElementById('c')?.hasAttribute('data-dom-once')).toBe(
+        false,
+      );
+    });
+
+    test('failed elements are retried on the next call', () => {
+      const el = document.createElement('div');
+      let attempts = 0;
+      const callback = () => {
+        attempts++;
+        if (attempts === 1) throw new Error('Test error');
+      };
+
+      expect(() =>
+        doOnce('my-id', el as unknown as HTMLDivElement, callback),
+      ).toThrow('Test error');
+      const result = doOnce('my-id', el as unknown as HTMLDivElement, callback);
+
+      expect(result).toEqual([el]);
+      expect(attempts).toBe(2);
+    });
+
+    test('continueOnError processes remaining elements and throws AggregateError', () => {
+      const div1 = document.createElement('div');
+      const div2 = document.createElement('div');
+      const div3 = document.createElement('div');
+      const error1 = new Error('first');
+      const error3 = new Error('third');
+      let thrown: unknown;
+
+      try {
+        doOnce(
+          'my-id',
+          [div1, div2, div3] as unknown as HTMLDivElement[],
+          (element) => {
+            if (element === div1) throw error1;
+            if (element === div3) throw error3;
+          },
+          { continueOnError: true },
+        );
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(AggregateError);
+      expect((thrown as AggregateError).errors).toEqual([error1, error3]);
+      expect((thrown as AggregateError).message).toBe(
+        '2 callback(s) failed for once ID "my-id"',
+      );
+      expect(div1.hasAttribute('data-dom-once')).toBe(false);
+      expect(div2.getAttribute('data-dom-once')).toBe('my-id');
+      expect(div3.hasAttribute('data-dom-once')).toBe(false);
+    });
+
+    test('continueOnError returns processed elements when nothing fails', () => {
+      const div1 = document.createElement('div');
+      const div2 = document.createElement('div');
+
+      const result = doOnce(
+        'my-id',
+        [div1, div2] as unknown as HTMLDivElement[],
+        () => {},
+        { continueOnError: true },
+      );
+
+      expect(result).toEqual([div1, div2]);
+    });
+
+    test('element processed by an earlier callback is not processed again', () => {
+      document.body.innerHTML =
+        '<div class="test" id="a"></div><div class="test" id="b"></div>';
+      const calls: string[] = [];
+      const callback = (element: Element): void => {
+        calls.push(element.id);
+        if (element.id === 'a') {
+          doOnce('my-id', document.getElementById('b') as Element, callback);
+        }
+      };
+
+      doOnce('my-id', '.test', callback, {
+        context: document as unknown as Document,
+      });
+
+      expect(calls).toEqual(['a', 'b']);
+    });
+  });
 });
 
 describe('findOnce', () => {
@@ -1451,15 +1701,17 @@ describe('findOnce', () => {
     test('invalid context throws error', () => {
       // @ts-expect-error - Testing invalid context
       expect(() => findOnce('id', { context: null })).toThrow(
-        'context must be a Document, DocumentFragment, or Element',
+        'context must be a Document, DocumentFragment, ShadowRoot, or Element',
       );
       expect(() =>
         // @ts-expect-error - Testing invalid context
         findOnce('id', { context: 'string' }),
-      ).toThrow('context must be a Document, DocumentFragment, or Element');
+      ).toThrow(
+        'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+      );
       // @ts-expect-error - Testing invalid context
       expect(() => findOnce('id', { context: 123 })).toThrow(
-        'context must be a Document, DocumentFragment, or Element',
+        'context must be a Document, DocumentFragment, ShadowRoot, or Element',
       );
     });
 
@@ -1982,3 +2234,3845 @@ describe('findOnce', () => {
     });
   });
 });
+
+describe('doOnceAsync', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('parameter validation', () => {
+    test('rejects invalid onceId', async () => {
+      await expect(
+        doOnceAsync('bad id', 'div', async () => {}),
+      ).rejects.toThrow(
+        'Invalid once ID: "bad id". Must contain only letters, numbers, underscores, and hyphens',
+      );
+    });
+
+    test('rejects non-function callback', async () => {
+      await expect(
+        // @ts-expect-error - Testing invalid callback
+        doOnceAsync('my-id', 'div', 'not a function'),
+      ).rejects.toThrow('callback must be a function');
+    });
+
+    test('rejects unsupported selector shapes', async () => {
+      // @ts-expect-error - Testing invalid selector
+      await expect(doOnceAsync('my-id', 123, async () => {})).rejects.toThrow(
+        TypeError,
+      );
+    });
+
+    test('empty selector string resolves to []', async () => {
+      await expect(doOnceAsync('my-id', '', async () => {})).resolves.toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('basic functionality', () => {
+    test('awaits callback and marks element after it resolves', async () => {
+      const el = document.createElement('div');
+      const seen: (string | null)[] = [];
+
+      const result = await doOnceAsync(
+        'my-id',
+        el as unknown as HTMLDivElement,
+        async (element) => {
+          await Promise.resolve();
+          seen.push(element.getAttribute('data-dom-once'));
+        },
+      );
+
+      expect(result).toEqual([el]);
+      expect(seen).toEqual([null]);
+      expect(el.getAttribute('data-dom-once')).toBe('my-id');
+    });
+
+    test('processes string selectors within context', async () => {
+      document.body.innerHTML =
+        '<div class="item"></div><div class="item" data-dom-once="my-id"></div>';
+      let count = 0;
+
+      const result = await doOnceAsync(
+        'my-id',
+        '.item',
+        async () => {
+          count++;
+        },
+        { context: document as unknown as Document },
+      );
+
+      expect(result).toHaveLength(1);
+      expect(count).toBe(1);
+    });
+
+    test('accepts iterables and array-likes, skipping non-Elements', async () => {
+      const div1 = document.createElement('div');
+      const div2 = document.createElement('div');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mixed: any[] = [div1, null, 'string', div2];
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = await doOnceAsync('my-id', mixed as any, async () => {});
+
+      expect(result).toEqual([div1, div2]);
+    });
+
+    test('accepts synchronous callbacks', async () => {
+      const el = document.createElement('div');
+
+      const result = await doOnceAsync(
+        'my-id',
+        el as unknown as HTMLDivElement,
+        () => {},
+      );
+
+      expect(result).toEqual([el]);
+    });
+
+    test('respects custom onceAttribute', async () => {
+      const el = document.createElement('div');
+
+      await doOnceAsync(
+        'my-id',
+        el as unknown as HTMLDivElement,
+        async () => {},
+        {
+          onceAttribute: 'data-custom',
+        },
+      );
+
+      expect(el.getAttribute('data-custom')).toBe('my-id');
+      expect(el.hasAttribute('data-dom-once')).toBe(false);
+    });
+  });
+
+  describe('in-flight tracking', () => {
+    test('concurrent calls skip elements still being processed', async () => {
+      const el = document.createElement('div');
+      let count = 0;
+      let resolveFirst: () => void = () => {};
+      const pending = new Promise<void>((resolve) => {
+        resolveFirst = resolve;
+      });
+
+      const first = doOnceAsync(
+        'my-id',
+        el as unknown as HTMLDivElement,
+        async () => {
+          count++;
+          await pending;
+        },
+      );
+      const second = await doOnceAsync(
+        'my-id',
+        el as unknown as HTMLDivElement,
+        async () => {
+          count++;
+        },
+      );
+
+      expect(second).toEqual([]);
+      expect(el.hasAttribute('data-dom-once')).toBe(false);
+
+      resolveFirst();
+      expect(await first).toEqual([el]);
+      expect(count).toBe(1);
+      expect(el.getAttribute('data-dom-once')).toBe('my-id');
+    });
+
+    test('doOnce and querySelectorOnce skip elements claimed by doOnceAsync', async () => {
+      document.body.innerHTML = '<div class="a"></div><div class="a"></div>';
+      const context = document as unknown as Document;
+      const calls: string[] = [];
+      let resolveFirst: () => void = () => {};
+      const pending = new Promise<void>((resolve) => {
+        resolveFirst = resolve;
+      });
+
+      const async = doOnceAsync(
+        'my-id',
+        '.a',
+        async () => {
+          calls.push('async');
+          await pending;
+        },
+        { context },
+      );
+      const sync = doOnce('my-id', '.a', () => calls.push('sync'), {
+        context,
+      });
+      const queried = querySelectorOnce('my-id', '.a', { context });
+
+      expect(sync).toEqual([]);
+      expect(queried).toEqual([]);
+      resolveFirst();
+      expect(await async).toHaveLength(2);
+      expect(calls).toEqual(['async', 'async']);
+    });
+
+    test('skips elements marked while an earlier callback was awaited', async () => {
+      const first = document.createElement('div');
+      const second = document.createElement('div');
+      const processed: unknown[] = [];
+
+      const result = await doOnceAsync(
+        'my-id',
+        [first, second] as unknown as HTMLDivElement[],
+        async (el) => {
+          processed.push(el);
+          second.setAttribute('data-dom-once', 'my-id');
+        },
+      );
+
+      expect(processed).toEqual([first]);
+      expect(result).toEqual([first]);
+    });
+
+    test('different once IDs are tracked independently', async () => {
+      const el = document.createElement('div');
+
+      const [a, b] = await Promise.all([
+        doOnceAsync(
+          'first-id',
+          el as unknown as HTMLDivElement,
+          async () => {},
+        ),
+        doOnceAsync(
+          'second-id',
+          el as unknown as HTMLDivElement,
+          async () => {},
+        ),
+      ]);
+
+      expect(a).toEqual([el]);
+      expect(b).toEqual([el]);
+      expect(el.getAttribute('data-dom-once')).toBe('first-id second-id');
+    });
+
+    test('duplicate elements in input are processed once', async () => {
+      const el = document.createElement('div');
+      let count = 0;
+
+      const result = await doOnceAsync(
+        'my-id',
+        [el, el] as unknown as HTMLDivElement[],
+        async () => {
+          count++;
+        },
+      );
+
+      expect(result).toEqual([el]);
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('error handling', () => {
+    test('rejection leaves failing and remaining elements unmarked', async () => {
+      const div1 = document.createElement('div');
+      const div2 = document.createElement('div');
+      const div3 = document.createElement('div');
+
+      await expect(
+        doOnceAsync(
+          'my-id',
+          [div1, div2, div3] as unknown as HTMLDivElement[],
+          async (element) => {
+            if (element === div2) throw new Error('Test error');
+          },
+        ),
+      ).rejects.toThrow('Test error');
+
+      expect(div1.getAttribute('data-dom-once')).toBe('my-id');
+      expect(div2.hasAttribute('data-dom-once')).toBe(false);
+      expect(div3.hasAttribute('data-dom-once')).toBe(false);
+    });
+
+    test('continueOnError rejects with AggregateError after processing remaining elements', async () => {
+      const div1 = document.createElement('div');
+      const div2 = document.createElement('div');
+      const error = new Error('Test error');
+
+      const promise = doOnceAsync(
+        'my-id',
+        [div1, div2] as unknown as HTMLDivElement[],
+        async (element) => {
+          if (element === div1) throw error;
+        },
+        { continueOnError: true },
+      );
+
+      await expect(promise).rejects.toBeInstanceOf(AggregateError);
+      await promise.catch((thrown: AggregateError) => {
+        expect(thrown.errors).toEqual([error]);
+      });
+      expect(div1.hasAttribute('data-dom-once')).toBe(false);
+      expect(div2.getAttribute('data-dom-once')).toBe('my-id');
+    });
+
+    test('releases in-flight claims after rejection so elements can be retried', async () => {
+      const el = document.createElement('div');
+
+      await expect(
+        doOnceAsync('my-id', el as unknown as HTMLDivElement, async () => {
+          throw new Error('Test error');
+        }),
+      ).rejects.toThrow('Test error');
+
+      const result = await doOnceAsync(
+        'my-id',
+        el as unknown as HTMLDivElement,
+        async () => {},
+      );
+
+      expect(result).toEqual([el]);
+    });
+  });
+});
+
+describe('disposeOnce', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('validates onceId and context', () => {
+    expect(() => disposeOnce('bad id')).toThrow(
+      'Invalid once ID: "bad id". Must contain only letters, numbers, underscores, and hyphens',
+    );
+    // @ts-expect-error - Testing null context
+    expect(() => disposeOnce('my-id', { context: null })).toThrow(
+      'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+    );
+  });
+
+  test('disposes and unmarks all marked elements in context', () => {
+    document.body.innerHTML =
+      '<div id="region"><span class="item"></span><span class="item"></span></div><span class="item" id="outside"></span>';
+    const disposed: Element[] = [];
+    doOnce(
+      'my-id',
+      '.item',
+      (element) => () => {
+        disposed.push(element);
+      },
+      { context: document as unknown as Document },
+    );
+    const region = document.getElementById('region') as unknown as Element;
+
+    const result = disposeOnce('my-id', { context: region });
+
+    expect(result).toHaveLength(2);
+    expect(disposed).toEqual(result);
+    expect(
+      document.getElementById('outside')?.getAttribute('data-dom-once'),
+    ).toBe('my-id');
+  });
+
+  test('unmarks elements without a registered disposer', () => {
+    document.body.innerHTML = '<div data-dom-once="my-id other"></div>';
+
+    const result = disposeOnce('my-id', {
+      context: document as unknown as Document,
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].getAttribute('data-dom-once')).toBe('other');
+  });
+
+  test('allows elements to be re-initialized after disposal', () => {
+    document.body.innerHTML = '<div class="item"></div>';
+    let attached = 0;
+    const callback = () => {
+      attached++;
+      return () => {};
+    };
+
+    doOnce('my-id', '.item', callback, {
+      context: document as unknown as Document,
+    });
+    disposeOnce('my-id', { context: document as unknown as Document });
+    doOnce('my-id', '.item', callback, {
+      context: document as unknown as Document,
+    });
+
+    expect(attached).toBe(2);
+  });
+
+  test('respects custom onceAttribute', () => {
+    document.body.innerHTML =
+      '<div data-custom="my-id"></div><div data-dom-once="my-id"></div>';
+
+    const result = disposeOnce('my-id', {
+      onceAttribute: 'data-custom',
+      context: document as unknown as Document,
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].hasAttribute('data-custom')).toBe(false);
+  });
+});
+
+describe('watchOnce', () => {
+  const watchers: { disconnect(): void }[] = [];
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    watchers.splice(0).forEach((watcher) => watcher.disconnect());
+  });
+
+  test('validates parameters', () => {
+    // @ts-expect-error - Testing invalid selector
+    expect(() => watchOnce('my-id', null, () => {})).toThrow(
+      'selector must be a string',
+    );
+    expect(() => watchOnce('bad id', '.item', () => {})).toThrow(
+      'Invalid once ID: "bad id". Must contain only letters, numbers, underscores, and hyphens',
+    );
+    // @ts-expect-error - Testing invalid callback
+    expect(() => watchOnce('my-id', '.item', null)).toThrow(
+      'callback must be a function',
+    );
+    expect(() =>
+      // @ts-expect-error - Testing invalid context
+      watchOnce('my-id', '.item', () => {}, { context: 'string' }),
+    ).toThrow(
+      'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+    );
+  });
+
+  test('processes existing matches immediately', () => {
+    document.body.innerHTML =
+      '<div class="item"></div><div class="item"></div>';
+    const processed: Element[] = [];
+
+    watchers.push(
+      watchOnce('my-id', '.item', (el) => processed.push(el), {
+        context: document as unknown as Document,
+      }),
+    );
+
+    expect(processed).toHaveLength(2);
+  });
+
+  test('processes inserted matching elements', async () => {
+    const processed: Element[] = [];
+    watchers.push(
+      watchOnce('my-id', '.item', (el) => processed.push(el), {
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    const div = document.createElement('div');
+    div.className = 'item';
+    document.body.appendChild(div);
+    await flushMutations();
+
+    expect(processed).toEqual([div]);
+    expect(div.getAttribute('data-dom-once')).toBe('my-id');
+  });
+
+  test('processes matches nested inside inserted subtrees', async () => {
+    const processed: string[] = [];
+    watchers.push(
+      watchOnce('my-id', '.item', (el) => processed.push(el.id), {
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    const wrapper = document.createElement('section');
+    wrapper.innerHTML =
+      '<div class="item" id="a"><span class="item" id="b"></span></div><p></p>';
+    document.body.appendChild(wrapper);
+    await flushMutations();
+
+    expect(processed).toEqual(['a', 'b']);
+  });
+
+  test('batches insertions into a single pass per microtask', async () => {
+    const batches: number[] = [];
+    let current = 0;
+    watchers.push(
+      watchOnce(
+        'my-id',
+        '.item',
+        () => {
+          if (current === 0) queueMicrotask(() => batches.push(current));
+          current++;
+        },
+        { context: document.body as unknown as Element },
+      ),
+    );
+
+    for (let i = 0; i < 5; i++) {
+      const div = document.createElement('div');
+      div.className = 'item';
+      document.body.appendChild(div);
+    }
+    await flushMutations();
+
+    expect(current).toBe(5);
+    expect(batches).toEqual([5]);
+  });
+
+  test('ignores non-matching and already marked elements', async () => {
+    let count = 0;
+    watchers.push(
+      watchOnce('my-id', '.item', () => count++, {
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    const other = document.createElement('div');
+    const marked = document.createElement('div');
+    marked.className = 'item';
+    marked.setAttribute('data-dom-once', 'my-id');
+    document.body.appendChild(other);
+    document.body.appendChild(marked);
+    await flushMutations();
+
+    expect(count).toBe(0);
+  });
+
+  test('skips elements removed before the batch runs', async () => {
+    let count = 0;
+    watchers.push(
+      watchOnce('my-id', '.item', () => count++, {
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    const div = document.createElement('div');
+    div.className = 'item';
+    document.body.appendChild(div);
+    div.remove();
+    await flushMutations();
+
+    expect(count).toBe(0);
+  });
+
+  test('disconnect stops processing inserted elements', async () => {
+    let count = 0;
+    const watcher = watchOnce('my-id', '.item', () => count++, {
+      context: document.body as unknown as Element,
+    });
+
+    watcher.disconnect();
+    const div = document.createElement('div');
+    div.className = 'item';
+    document.body.appendChild(div);
+    await flushMutations();
+
+    expect(count).toBe(0);
+  });
+
+  test('respects custom onceAttribute', async () => {
+    watchers.push(
+      watchOnce('my-id', '.item', () => {}, {
+        onceAttribute: 'data-custom',
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    const div = document.createElement('div');
+    div.className = 'item';
+    document.body.appendChild(div);
+    await flushMutations();
+
+    expect(div.getAttribute('data-custom')).toBe('my-id');
+  });
+
+  test('empty selector returns a no-op watcher', () => {
+    const watcher = watchOnce('my-id', '', () => {});
+    expect(() => watcher.disconnect()).not.toThrow();
+  });
+});
+
+describe('watchDetachOnce', () => {
+  const watchers: { disconnect(): void }[] = [];
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    watchers.splice(0).forEach((watcher) => watcher.disconnect());
+  });
+
+  test('validates parameters', () => {
+    expect(() => watchDetachOnce('bad id', () => {})).toThrow(
+      'Invalid once ID: "bad id". Must contain only letters, numbers, underscores, and hyphens',
+    );
+    // @ts-expect-error - Testing invalid callback
+    expect(() => watchDetachOnce('my-id', 'nope')).toThrow(
+      'callback must be a function',
+    );
+    expect(() =>
+      // @ts-expect-error - Testing invalid context
+      watchDetachOnce('my-id', () => {}, { context: 123 }),
+    ).toThrow(
+      'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+    );
+  });
+
+  test('calls callback for removed marked elements', async () => {
+    document.body.innerHTML =
+      '<div id="a" data-dom-once="my-id"></div><div id="b"></div>';
+    const detached: string[] = [];
+    watchers.push(
+      watchDetachOnce('my-id', (el) => detached.push(el.id), {
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    document.getElementById('a')?.remove();
+    document.getElementById('b')?.remove();
+    await flushMutations();
+
+    expect(detached).toEqual(['a']);
+  });
+
+  test('finds marked descendants of removed subtrees', async () => {
+    document.body.innerHTML =
+      '<section id="region"><div id="a" data-dom-once="my-id"><span id="b" data-dom-once="other my-id"></span></div></section>';
+    const detached: string[] = [];
+    watchers.push(
+      watchDetachOnce('my-id', (el) => detached.push(el.id), {
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    document.body.innerHTML = '';
+    await flushMutations();
+
+    expect(detached).toEqual(['a', 'b']);
+  });
+
+  test('ignores elements moved within the context', async () => {
+    document.body.innerHTML =
+      '<div id="a" data-dom-once="my-id"></div><div id="target"></div>';
+    let count = 0;
+    watchers.push(
+      watchDetachOnce('my-id', () => count++, {
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    const el = document.getElementById('a');
+    if (el) document.getElementById('target')?.appendChild(el);
+    await flushMutations();
+
+    expect(count).toBe(0);
+  });
+
+  test('keeps the once id by default', async () => {
+    document.body.innerHTML = '<div id="a" data-dom-once="my-id"></div>';
+    const el = document.getElementById('a') as unknown as Element;
+    watchers.push(
+      watchDetachOnce('my-id', () => {}, {
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    el.remove();
+    await flushMutations();
+
+    expect(el.getAttribute('data-dom-once')).toBe('my-id');
+  });
+
+  test('removeOnce clears the once id and runs disposers after the callback', async () => {
+    document.body.innerHTML = '<div class="item"></div>';
+    const events: string[] = [];
+    doOnce('my-id', '.item', () => () => events.push('dispose'), {
+      context: document as unknown as Document,
+    });
+    const el = document.querySelector('.item') as unknown as Element;
+    watchers.push(
+      watchDetachOnce('my-id', () => events.push('detach'), {
+        context: document.body as unknown as Element,
+        removeOnce: true,
+      }),
+    );
+
+    el.remove();
+    await flushMutations();
+
+    expect(events).toEqual(['detach', 'dispose']);
+    expect(el.hasAttribute('data-dom-once')).toBe(false);
+  });
+
+  test('respects custom onceAttribute', async () => {
+    document.body.innerHTML =
+      '<div id="a" data-custom="my-id"></div><div id="b" data-dom-once="my-id"></div>';
+    const detached: string[] = [];
+    watchers.push(
+      watchDetachOnce('my-id', (el) => detached.push(el.id), {
+        onceAttribute: 'data-custom',
+        context: document.body as unknown as Element,
+      }),
+    );
+
+    document.body.innerHTML = '';
+    await flushMutations();
+
+    expect(detached).toEqual(['a']);
+  });
+
+  test('a throwing callback does not skip the others or removeOnce', async () => {
+    document.body.innerHTML =
+      '<div id="a" data-dom-once="my-id"></div><div id="b" data-dom-once="my-id"></div>';
+    const [a, b] = Array.from(document.body.children);
+    const flushes: (() => void)[] = [];
+    vi.stubGlobal('queueMicrotask', (flush: () => void) => flushes.push(flush));
+    const detached: string[] = [];
+    try {
+      watchers.push(
+        watchDetachOnce(
+          'my-id',
+          (el) => {
+            detached.push(el.id);
+            if (el.id === 'a') throw new Error('boom');
+          },
+          { context: document.body as unknown as Element, removeOnce: true },
+        ),
+      );
+
+      document.body.innerHTML = '';
+      await flushMutations();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(flushes).toHaveLength(1);
+    expect(() => flushes[0]()).toThrow(AggregateError);
+    expect(detached).toEqual(['a', 'b']);
+    expect(a.hasAttribute('data-dom-once')).toBe(false);
+    expect(b.hasAttribute('data-dom-once')).toBe(false);
+  });
+
+  test('disconnect stops observing removals', async () => {
+    document.body.innerHTML = '<div id="a" data-dom-once="my-id"></div>';
+    let count = 0;
+    const watcher = watchDetachOnce('my-id', () => count++, {
+      context: document.body as unknown as Element,
+    });
+
+    watcher.disconnect();
+    document.getElementById('a')?.remove();
+    await flushMutations();
+
+    expect(count).toBe(0);
+  });
+});
+
+describe('behaviors', () => {
+  const names: string[] = [];
+  const define: typeof defineBehavior = (name, behavior) => {
+    names.push(name);
+    defineBehavior(name, behavior);
+  };
+  const context = () => document.body as unknown as Element;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    names.splice(0).forEach((name) => removeBehavior(name));
+  });
+
+  describe('defineBehavior', () => {
+    test('validates name and definition', () => {
+      expect(() =>
+        defineBehavior('bad name', { selector: '.a', attach: () => {} }),
+      ).toThrow(
+        'Invalid once ID: "bad name". Must contain only letters, numbers, underscores, and hyphens',
+      );
+      // @ts-expect-error - Testing missing definition
+      expect(() => defineBehavior('b', null)).toThrow(
+        'behavior must be an object',
+      );
+      expect(() =>
+        // @ts-expect-error - Testing invalid selector
+        defineBehavior('b', { selector: 1, attach: () => {} }),
+      ).toThrow('selector must be a string');
+      expect(() =>
+        // @ts-expect-error - Testing invalid attach
+        defineBehavior('b', { selector: '.a', attach: 'nope' }),
+      ).toThrow('attach must be a function');
+      expect(() =>
+        defineBehavior('b', {
+          selector: '.a',
+          attach: () => {},
+          // @ts-expect-error - Testing invalid detach
+          detach: 'nope',
+        }),
+      ).toThrow('detach must be a function');
+      expect(() =>
+        defineBehavior('b', {
+          selector: '.a',
+          attach: () => {},
+          onceId: 'bad id',
+        }),
+      ).toThrow('Invalid once ID: "bad id"');
+    });
+
+    test('throws for duplicate names', () => {
+      define('dup', { selector: '.a', attach: () => {} });
+
+      expect(() =>
+        defineBehavior('dup', { selector: '.b', attach: () => {} }),
+      ).toThrow('Behavior "dup" is already defined');
+    });
+
+    test('removeBehavior unregisters a behavior', () => {
+      defineBehavior('temp', { selector: '.a', attach: () => {} });
+
+      expect(removeBehavior('temp')).toBe(true);
+      expect(removeBehavior('temp')).toBe(false);
+      expect(() =>
+        defineBehavior('temp', { selector: '.a', attach: () => {} }),
+      ).not.toThrow();
+      removeBehavior('temp');
+    });
+  });
+
+  describe('attachBehaviors', () => {
+    test('attaches behaviors once per element within context', () => {
+      document.body.innerHTML =
+        '<div class="widget"></div><div class="widget"></div>';
+      const attached: Element[] = [];
+      define('widget', {
+        selector: '.widget',
+        attach: (el, ctx) => {
+          expect(ctx).toBe(context());
+          attached.push(el);
+        },
+      });
+
+      attachBehaviors(context());
+      attachBehaviors(context());
+
+      expect(attached).toHaveLength(2);
+      expect(attached[0].getAttribute('data-dom-once')).toBe('widget');
+    });
+
+    test('runs behaviors in registration order', () => {
+      document.body.innerHTML = '<div class="a b"></div>';
+      const order: string[] = [];
+      define('second', { selector: '.b', attach: () => order.push('second') });
+      define('first', { selector: '.a', attach: () => order.push('first') });
+
+      attachBehaviors(context());
+
+      expect(order).toEqual(['second', 'first']);
+    });
+
+    test('uses a custom onceId and onceAttribute', () => {
+      document.body.innerHTML = '<div class="a"></div>';
+      define('named', {
+        selector: '.a',
+        attach: () => {},
+        onceId: 'custom-id',
+      });
+
+      attachBehaviors(context(), { onceAttribute: 'data-custom' });
+
+      expect(document.querySelector('.a')?.getAttribute('data-custom')).toBe(
+        'custom-id',
+      );
+    });
+
+    test('isolates errors per behavior and throws AggregateError', () => {
+      document.body.innerHTML = '<div class="a"></div>';
+      const cause = new Error('boom');
+      let attached = false;
+      define('broken', {
+        selector: '.a',
+        attach: () => {
+          throw cause;
+        },
+      });
+      define('working', {
+        selector: '.a',
+        attach: () => {
+          attached = true;
+        },
+      });
+      let thrown: unknown;
+
+      try {
+        attachBehaviors(context());
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(attached).toBe(true);
+      expect(thrown).toBeInstanceOf(AggregateError);
+      const [error] = (thrown as AggregateError).errors as Error[];
+      expect(error.message).toBe('Behavior "broken" failed to attach');
+      expect(error.cause).toBe(cause);
+    });
+
+    test('validates context', () => {
+      // @ts-expect-error - Testing invalid context
+      expect(() => attachBehaviors('nope')).toThrow(
+        'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+      );
+    });
+  });
+
+  describe('detachBehaviors', () => {
+    test('detaches in reverse order and removes once ids on unload', () => {
+      document.body.innerHTML = '<div class="a"></div>';
+      const events: string[] = [];
+      define('first', {
+        selector: '.a',
+        attach: () => () => events.push('dispose first'),
+        detach: (_el, _ctx, trigger) => events.push(`detach first ${trigger}`),
+      });
+      define('second', {
+        selector: '.a',
+        attach: () => {},
+        detach: () => events.push('detach second'),
+      });
+      attachBehaviors(context());
+
+      detachBehaviors(context());
+
+      expect(events).toEqual([
+        'detach second',
+        'detach first unload',
+        'dispose first',
+      ]);
+      expect(document.querySelector('.a')?.hasAttribute('data-dom-once')).toBe(
+        false,
+      );
+    });
+
+    test('a throwing detach still detaches and unloads the other elements', () => {
+      document.body.innerHTML =
+        '<div class="a" id="one"></div><div class="a" id="two"></div>';
+      const disposed: string[] = [];
+      define('fragile', {
+        selector: '.a',
+        attach: (el) => () => disposed.push(el.id),
+        detach: (el) => {
+          if (el.id === 'one') throw new Error('boom');
+        },
+      });
+      attachBehaviors(context());
+
+      expect(() => detachBehaviors(context())).toThrow('1 behavior(s) failed');
+      expect(disposed).toEqual(['one', 'two']);
+      expect(document.querySelectorAll('[data-dom-once]')).toHaveLength(0);
+    });
+
+    test('keeps once ids for non-unload triggers', () => {
+      document.body.innerHTML = '<div class="a"></div>';
+      const triggers: string[] = [];
+      define('mover', {
+        selector: '.a',
+        attach: () => {},
+        detach: (_el, _ctx, trigger) => triggers.push(trigger),
+      });
+      attachBehaviors(context());
+
+      detachBehaviors(context(), 'move');
+
+      expect(triggers).toEqual(['move']);
+      expect(document.querySelector('.a')?.getAttribute('data-dom-once')).toBe(
+        'mover',
+      );
+    });
+
+    test('allows re-attaching after unload', () => {
+      document.body.innerHTML = '<div class="a"></div>';
+      let attached = 0;
+      define('again', { selector: '.a', attach: () => void attached++ });
+
+      attachBehaviors(context());
+      detachBehaviors(context());
+      attachBehaviors(context());
+
+      expect(attached).toBe(2);
+    });
+
+    test('isolates errors per behavior and throws AggregateError', () => {
+      document.body.innerHTML = '<div class="a"></div>';
+      let detached = false;
+      define('working', {
+        selector: '.a',
+        attach: () => {},
+        detach: () => {
+          detached = true;
+        },
+      });
+      define('broken', {
+        selector: '.a',
+        attach: () => {},
+        detach: () => {
+          throw new Error('boom');
+        },
+      });
+      attachBehaviors(context());
+
+      expect(() => detachBehaviors(context())).toThrow(AggregateError);
+      expect(detached).toBe(true);
+    });
+  });
+
+  describe('dependencies', () => {
+    test('validates after and requires', () => {
+      expect(() =>
+        defineBehavior('b', {
+          selector: '.a',
+          attach: () => {},
+          // @ts-expect-error - Testing invalid after
+          after: 'first',
+        }),
+      ).toThrow('after must be an array of behavior names');
+      expect(() =>
+        defineBehavior('b', {
+          selector: '.a',
+          attach: () => {},
+          // @ts-expect-error - Testing invalid requires
+          requires: [1],
+        }),
+      ).toThrow('requires must be an array of behavior names');
+    });
+
+    test('after runs dependencies first regardless of registration order', () => {
+      document.body.innerHTML = '<form></form>';
+      const order: string[] = [];
+      define('form-ajax', {
+        selector: 'form',
+        attach: () => order.push('form-ajax'),
+        after: ['form-validate'],
+      });
+      define('form-validate', {
+        selector: 'form',
+        attach: () => order.push('form-validate'),
+      });
+
+      attachBehaviors(context());
+
+      expect(order).toEqual(['form-validate', 'form-ajax']);
+    });
+
+    test('after ignores undefined behaviors', () => {
+      document.body.innerHTML = '<form></form>';
+      let attached = false;
+      define('form-ajax', {
+        selector: 'form',
+        attach: () => {
+          attached = true;
+        },
+        after: ['missing'],
+      });
+
+      attachBehaviors(context());
+
+      expect(attached).toBe(true);
+    });
+
+    test('requires only attaches to elements marked by the prerequisite', () => {
+      document.body.innerHTML =
+        '<form id="a" class="validate"></form><form id="b"></form>';
+      const attached: string[] = [];
+      define('form-ajax', {
+        selector: 'form',
+        attach: (el) => attached.push(el.id),
+        requires: ['form-validate'],
+      });
+      define('form-validate', {
+        selector: 'form.validate',
+        attach: () => {},
+        onceId: 'validated',
+      });
+
+      attachBehaviors(context());
+
+      expect(attached).toEqual(['a']);
+      expect(document.getElementById('b')?.hasAttribute('data-dom-once')).toBe(
+        false,
+      );
+    });
+
+    test('requires skips elements whose prerequisite failed', () => {
+      document.body.innerHTML = '<form id="a"></form>';
+      let attached = false;
+      define('form-validate', {
+        selector: 'form',
+        attach: () => {
+          throw new Error('boom');
+        },
+      });
+      define('form-ajax', {
+        selector: 'form',
+        attach: () => {
+          attached = true;
+        },
+        requires: ['form-validate'],
+      });
+
+      expect(() => attachBehaviors(context())).toThrow(AggregateError);
+      expect(attached).toBe(false);
+    });
+
+    test('throws for undefined required behaviors', () => {
+      define('form-ajax', {
+        selector: 'form',
+        attach: () => {},
+        requires: ['form-validate'],
+      });
+
+      expect(() => attachBehaviors(context())).toThrow(
+        'Behavior "form-ajax" requires undefined behavior "form-validate"',
+      );
+    });
+
+    test('reports dependency cycles', () => {
+      define('a', { selector: '.x', attach: () => {}, after: ['b'] });
+      define('b', { selector: '.x', attach: () => {}, requires: ['c'] });
+      define('c', { selector: '.x', attach: () => {}, after: ['a'] });
+
+      expect(() => attachBehaviors(context())).toThrow(
+        'Behavior dependency cycle: a -> b -> c -> a',
+      );
+      expect(() => detachBehaviors(context())).toThrow(
+        'Behavior dependency cycle: a -> b -> c -> a',
+      );
+    });
+
+    test('detaches dependents before their dependencies', () => {
+      document.body.innerHTML = '<form></form>';
+      const order: string[] = [];
+      define('form-ajax', {
+        selector: 'form',
+        attach: () => {},
+        detach: () => order.push('form-ajax'),
+        requires: ['form-validate'],
+      });
+      define('form-validate', {
+        selector: 'form',
+        attach: () => {},
+        detach: () => order.push('form-validate'),
+      });
+      attachBehaviors(context());
+
+      detachBehaviors(context());
+
+      expect(order).toEqual(['form-ajax', 'form-validate']);
+    });
+  });
+});
+
+describe('memory store', () => {
+  const memory = { store: 'memory' } as const;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('rejects unknown store kinds', () => {
+    // @ts-expect-error - Testing invalid store
+    expect(() => findOnce('my-id', { store: 'cookie' })).toThrow(
+      'store must be "attribute", "memory", or an object implementing OnceStore',
+    );
+  });
+
+  test('querySelectorOnce marks elements without writing attributes', () => {
+    document.body.innerHTML =
+      '<div class="item"></div><div class="item"></div>';
+    const options = { ...memory, context: document as unknown as Document };
+
+    const first = querySelectorOnce('my-id', '.item', options);
+    const second = querySelectorOnce('my-id', '.item', options);
+
+    expect(first).toHaveLength(2);
+    expect(second).toEqual([]);
+    expect(document.body.innerHTML).toBe(
+      '<div class="item"></div><div class="item"></div>',
+    );
+  });
+
+  test('doOnce runs callbacks once per element', () => {
+    const el = document.createElement('div');
+    let count = 0;
+
+    doOnce(
+      'my-id',
+      el as unknown as HTMLDivElement,
+      () => void count++,
+      memory,
+    );
+    doOnce(
+      'my-id',
+      el as unknown as HTMLDivElement,
+      () => void count++,
+      memory,
+    );
+
+    expect(count).toBe(1);
+    expect(el.hasAttribute('data-dom-once')).toBe(false);
+  });
+
+  test('is independent from the attribute store', () => {
+    const el = document.createElement('div');
+    el.setAttribute('data-dom-once', 'my-id');
+
+    const result = doOnce(
+      'my-id',
+      el as unknown as HTMLDivElement,
+      () => {},
+      memory,
+    );
+
+    expect(result).toEqual([el]);
+  });
+
+  test('is namespaced by onceAttribute', () => {
+    const el = document.createElement('div');
+    doOnce('my-id', el as unknown as HTMLDivElement, () => {}, memory);
+
+    const result = doOnce('my-id', el as unknown as HTMLDivElement, () => {}, {
+      ...memory,
+      onceAttribute: 'data-other',
+    });
+
+    expect(result).toEqual([el]);
+  });
+
+  test('findOnce checks every element in the context', () => {
+    document.body.innerHTML =
+      '<div id="a" class="item"><span id="b" class="item"></span></div><p id="c"></p>';
+    const options = { ...memory, context: document as unknown as Document };
+    doOnce('my-id', '.item', () => {}, options);
+
+    const found = findOnce('my-id', options);
+
+    expect(found.map((el) => el.id)).toEqual(['a', 'b']);
+    expect(
+      findOnce('my-id', { context: document as unknown as Document }),
+    ).toEqual([]);
+  });
+
+  test('removeOnce unmarks elements and runs disposers', () => {
+    const el = document.createElement('div');
+    let disposed = 0;
+    doOnce(
+      'my-id',
+      el as unknown as HTMLDivElement,
+      () => () => void disposed++,
+      memory,
+    );
+
+    expect(removeOnce('my-id', el as unknown as HTMLDivElement)).toEqual([]);
+    expect(disposed).toBe(0);
+    expect(
+      removeOnce('my-id', el as unknown as HTMLDivElement, memory),
+    ).toEqual([el]);
+    expect(disposed).toBe(1);
+    expect(
+      doOnce('my-id', el as unknown as HTMLDivElement, () => {}, memory),
+    ).toEqual([el]);
+  });
+
+  test('doOnceAsync and disposeOnce use the memory store', async () => {
+    document.body.innerHTML = '<div class="item"></div>';
+    const options = { ...memory, context: document as unknown as Document };
+
+    await doOnceAsync('my-id', '.item', async () => {}, options);
+
+    expect(findOnce('my-id', options)).toHaveLength(1);
+    expect(disposeOnce('my-id', options)).toHaveLength(1);
+    expect(findOnce('my-id', options)).toEqual([]);
+  });
+});
+
+describe('custom stores', () => {
+  /** Store that tracks once ids as `once-<id>` class names. */
+  const classStore: OnceStore = {
+    has: (element, onceId) => element.classList.contains(`once-${onceId}`),
+    add: (element, onceId) => element.classList.add(`once-${onceId}`),
+    remove: (element, onceId) => element.classList.remove(`once-${onceId}`),
+    list: (element) =>
+      Array.from(element.classList)
+        .filter((name) => name.startsWith('once-'))
+        .map((name) => name.slice('once-'.length)),
+    query: <T extends Element>(
+      context: Document | DocumentFragment | Element,
+      onceId: string,
+    ) => Array.from(context.querySelectorAll<T>(`.once-${onceId}`)),
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('rejects objects that do not implement OnceStore', () => {
+    expect(() =>
+      // @ts-expect-error - Testing incomplete store
+      findOnce('my-id', { store: { has: () => false } }),
+    ).toThrow(
+      'store must be "attribute", "memory", or an object implementing OnceStore',
+    );
+  });
+
+  test('all public functions use a custom store', async () => {
+    document.body.innerHTML = '<div class="item"></div>';
+    const options = {
+      store: classStore,
+      context: document as unknown as Document,
+    };
+    let disposed = 0;
+
+    expect(
+      doOnce('a', '.item', () => () => void disposed++, options),
+    ).toHaveLength(1);
+    expect(querySelectorOnce('b', '.item', options)).toHaveLength(1);
+    expect(
+      await doOnceAsync('c', '.item', async () => {}, options),
+    ).toHaveLength(1);
+    expect(findOnce('a', options)).toHaveLength(1);
+    expect(document.querySelector('.item')?.className).toBe(
+      'item once-a once-b once-c',
+    );
+    expect(document.querySelector('.item')?.hasAttribute('data-dom-once')).toBe(
+      false,
+    );
+
+    expect(removeOnce('a', '.item', options)).toHaveLength(1);
+    expect(disposed).toBe(1);
+    expect(disposeOnce('b', options)).toHaveLength(1);
+    expect(
+      classStore.list(document.querySelector('.item') as unknown as Element),
+    ).toEqual(['c']);
+  });
+
+  describe('attributeStore', () => {
+    test('validates the attribute name', () => {
+      // @ts-expect-error - Testing invalid attribute
+      expect(() => attributeStore('invalid')).toThrow(
+        'Invalid data attribute: "invalid". Must match pattern: /^data-[a-z0-9.:-]+$/',
+      );
+    });
+
+    test('returns a shared instance per attribute', () => {
+      expect(attributeStore()).toBe(attributeStore('data-dom-once'));
+      expect(attributeStore('data-custom')).not.toBe(attributeStore());
+    });
+
+    test('implements the default attribute behavior', () => {
+      const store = attributeStore('data-custom');
+      document.body.innerHTML = '<div data-custom="  a   b "></div>';
+      const el = document.querySelector('div') as unknown as Element;
+
+      expect(store.list(el)).toEqual(['a', 'b']);
+      expect(store.has(el, 'a')).toBe(true);
+      store.add(el, 'c');
+      store.add(el, 'c');
+      expect(el.getAttribute('data-custom')).toBe('a b c');
+      store.remove(el, 'a');
+      store.remove(el, 'b');
+      store.remove(el, 'c');
+      expect(el.hasAttribute('data-custom')).toBe(false);
+      expect(store.list(el)).toEqual([]);
+    });
+
+    test('shares disposers with the equivalent onceAttribute option', () => {
+      const el = document.createElement('div');
+      let disposed = 0;
+      doOnce(
+        'my-id',
+        el as unknown as HTMLDivElement,
+        () => () => void disposed++,
+        { store: attributeStore('data-custom') },
+      );
+
+      removeOnce('my-id', el as unknown as HTMLDivElement, {
+        onceAttribute: 'data-custom',
+      });
+
+      expect(disposed).toBe(1);
+    });
+  });
+
+  describe('memoryStore', () => {
+    test('creates isolated stores', () => {
+      const el = document.createElement('div');
+      const first = memoryStore();
+      const second = memoryStore();
+
+      first.add(el as unknown as Element, 'my-id');
+
+      expect(first.has(el as unknown as Element, 'my-id')).toBe(true);
+      expect(second.has(el as unknown as Element, 'my-id')).toBe(false);
+      expect(first.list(el as unknown as Element)).toEqual(['my-id']);
+    });
+
+    test('works as a store option', () => {
+      const store = memoryStore();
+      document.body.innerHTML = '<div class="item"></div>';
+      const options = { store, context: document as unknown as Document };
+
+      doOnce('my-id', '.item', () => {}, options);
+
+      expect(findOnce('my-id', options)).toHaveLength(1);
+      expect(findOnce('my-id', { ...options, store: 'memory' })).toEqual([]);
+    });
+  });
+});
+
+describe('createOnce', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('validates defaults at construction', () => {
+    // @ts-expect-error - Testing invalid attribute
+    expect(() => createOnce({ onceAttribute: 'invalid' })).toThrow(
+      'Invalid data attribute: "invalid". Must match pattern: /^data-[a-z0-9.:-]+$/',
+    );
+    // @ts-expect-error - Testing invalid context
+    expect(() => createOnce({ context: 'nope' })).toThrow(
+      'context must be a Document, DocumentFragment, ShadowRoot, or Element',
+    );
+    // @ts-expect-error - Testing invalid store
+    expect(() => createOnce({ store: 'nope' })).toThrow(
+      'store must be "attribute", "memory", or an object implementing OnceStore',
+    );
+  });
+
+  test('bound functions use the default attribute and context', () => {
+    document.body.innerHTML =
+      '<div id="root"><div class="item"></div></div><div class="item" id="outside"></div>';
+    const root = document.getElementById('root') as unknown as Element;
+    const once = createOnce({ onceAttribute: 'data-acme-once', context: root });
+    let count = 0;
+
+    expect(once.doOnce('init', '.item', () => void count++)).toHaveLength(1);
+    expect(once.querySelectorOnce('seen', '.item')).toHaveLength(1);
+    expect(once.findOnce('init')).toHaveLength(1);
+    expect(count).toBe(1);
+    expect(root.querySelector('.item')?.getAttribute('data-acme-once')).toBe(
+      'init seen',
+    );
+    expect(
+      document.getElementById('outside')?.hasAttribute('data-acme-once'),
+    ).toBe(false);
+    expect(once.removeOnce('seen', '.item')).toHaveLength(1);
+    expect(once.disposeOnce('init')).toHaveLength(1);
+    expect(root.querySelector('.item')?.hasAttribute('data-acme-once')).toBe(
+      false,
+    );
+  });
+
+  test('per-call options override defaults', () => {
+    document.body.innerHTML = '<div class="item"></div>';
+    const once = createOnce({ onceAttribute: 'data-acme-once' });
+
+    once.doOnce('init', '.item', () => {}, {
+      onceAttribute: 'data-other',
+      context: document as unknown as Document,
+    });
+
+    expect(document.querySelector('.item')?.getAttribute('data-other')).toBe(
+      'init',
+    );
+  });
+
+  test('instances with different attributes are isolated', () => {
+    const el = document.createElement('div');
+    const first = createOnce({ onceAttribute: 'data-lib-a' });
+    const second = createOnce({ onceAttribute: 'data-lib-b' });
+    let disposedA = 0;
+
+    first.doOnce(
+      'init',
+      el as unknown as HTMLDivElement,
+      () => () => void disposedA++,
+    );
+    const result = second.doOnce(
+      'init',
+      el as unknown as HTMLDivElement,
+      () => {},
+    );
+    second.removeOnce('init', el as unknown as HTMLDivElement);
+
+    expect(result).toEqual([el]);
+    expect(disposedA).toBe(0);
+    expect(el.getAttribute('data-lib-a')).toBe('init');
+    expect(el.hasAttribute('data-lib-b')).toBe(false);
+  });
+
+  test('uses a custom store', async () => {
+    const store = memoryStore();
+    const once = createOnce({
+      store,
+      context: document as unknown as Document,
+    });
+    document.body.innerHTML = '<div class="item"></div>';
+
+    await once.doOnceAsync('init', '.item', async () => {});
+
+    expect(once.findOnce('init')).toHaveLength(1);
+    expect(
+      findOnce('init', { store, context: document as unknown as Document }),
+    ).toHaveLength(1);
+    expect(document.querySelector('.item')?.hasAttribute('data-dom-once')).toBe(
+      false,
+    );
+  });
+
+  test('watchers and behaviors use the defaults', async () => {
+    const context = document.body as unknown as Element;
+    const once = createOnce({ onceAttribute: 'data-acme-once', context });
+    const detached: Element[] = [];
+    const watcher = once.watchOnce('init', '.item', () => {});
+    const detachWatcher = once.watchDetachOnce('init', (el) =>
+      detached.push(el),
+    );
+    once.defineBehavior('acme-behavior', {
+      selector: '.item',
+      attach: () => {},
+    });
+
+    try {
+      const div = document.createElement('div');
+      div.className = 'item';
+      document.body.appendChild(div);
+      await flushMutations();
+      expect(div.getAttribute('data-acme-once')).toBe('init');
+
+      once.attachBehaviors();
+      expect(div.getAttribute('data-acme-once')).toBe('init acme-behavior');
+      once.detachBehaviors();
+      expect(div.getAttribute('data-acme-once')).toBe('init');
+
+      div.remove();
+      await flushMutations();
+      expect(detached).toEqual([div]);
+    } finally {
+      watcher.disconnect();
+      detachWatcher.disconnect();
+    }
+  });
+
+  test('behaviors are isolated per instance', () => {
+    document.body.innerHTML = '<div class="item"></div>';
+    const context = document.body as unknown as Element;
+    const libA = createOnce({ onceAttribute: 'data-liba', context });
+    const libB = createOnce({ onceAttribute: 'data-libb', context });
+    libA.defineBehavior('liba', { selector: '.item', attach: () => {} });
+    libB.defineBehavior('libb', { selector: '.item', attach: () => {} });
+    defineBehavior('global-behavior', { selector: '.item', attach: () => {} });
+
+    try {
+      libA.attachBehaviors();
+      const div = document.querySelector('.item');
+      expect(div?.getAttribute('data-liba')).toBe('liba');
+      expect(div?.hasAttribute('data-libb')).toBe(false);
+      expect(div?.hasAttribute('data-dom-once')).toBe(false);
+
+      expect(libA.removeBehavior('libb')).toBe(false);
+      expect(libA.removeBehavior('liba')).toBe(true);
+      libB.defineBehavior('liba', { selector: '.item', attach: () => {} });
+    } finally {
+      removeBehavior('global-behavior');
+    }
+  });
+});
+
+describe('shadow DOM', () => {
+  /** Builds `<div id="host">` with an open shadow root containing a nested host. */
+  const setup = () => {
+    document.body.innerHTML =
+      '<div class="item" id="light"></div><div id="host"><span class="item" id="slotted"></span></div>';
+    const host = document.getElementById('host');
+    const shadow = host?.attachShadow({ mode: 'open' });
+    if (!shadow) throw new Error('Shadow root not created');
+    shadow.innerHTML =
+      '<div class="item" id="shadow"></div><div id="inner-host"></div><slot></slot>';
+    const innerShadow = shadow
+      .getElementById('inner-host')
+      ?.attachShadow({ mode: 'open' });
+    if (!innerShadow) throw new Error('Inner shadow root not created');
+    innerShadow.innerHTML = '<div class="item" id="nested"></div>';
+    const closedHost = document.createElement('div');
+    closedHost.attachShadow({ mode: 'closed' }).innerHTML =
+      '<div class="item" id="closed"></div>';
+    document.body.appendChild(closedHost);
+    return shadow as unknown as ShadowRoot;
+  };
+  const ids = (elements: Element[]) => elements.map((el) => el.id);
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('does not pierce shadow roots by default', () => {
+    setup();
+
+    const result = querySelectorOnce('my-id', '.item', {
+      context: document as unknown as Document,
+    });
+
+    expect(ids(result)).toEqual(['light', 'slotted']);
+  });
+
+  test('pierceShadow queries open shadow roots recursively', () => {
+    setup();
+
+    const result = querySelectorOnce('my-id', '.item', {
+      context: document as unknown as Document,
+      pierceShadow: true,
+    });
+
+    expect(ids(result)).toEqual(['light', 'slotted', 'shadow', 'nested']);
+  });
+
+  test('findOnce pierces shadow roots', () => {
+    setup();
+    const options = {
+      context: document as unknown as Document,
+      pierceShadow: true,
+    };
+    querySelectorOnce('my-id', '.item', options);
+
+    expect(ids(findOnce('my-id', options))).toEqual([
+      'light',
+      'slotted',
+      'shadow',
+      'nested',
+    ]);
+    expect(
+      ids(findOnce('my-id', { context: document as unknown as Document })),
+    ).toEqual(['light', 'slotted']);
+  });
+
+  test('pierceShadow includes the shadow root of an Element context', () => {
+    setup();
+    const host = document.getElementById('host') as unknown as Element;
+
+    const result = querySelectorOnce('my-id', '.item', {
+      context: host,
+      pierceShadow: true,
+    });
+
+    expect(ids(result)).toEqual(['slotted', 'shadow', 'nested']);
+  });
+
+  test('accepts a ShadowRoot as context', () => {
+    const shadow = setup();
+
+    expect(
+      ids(querySelectorOnce('my-id', '.item', { context: shadow })),
+    ).toEqual(['shadow']);
+  });
+
+  test('includeSlotted adds elements assigned to slots', () => {
+    const shadow = setup();
+
+    const result = querySelectorOnce('my-id', '.item', {
+      context: shadow,
+      includeSlotted: true,
+    });
+
+    expect(ids(result)).toEqual(['shadow', 'slotted']);
+  });
+
+  test('doOnce and removeOnce apply the same semantics', () => {
+    const shadow = setup();
+    const processed: string[] = [];
+    const options = {
+      context: shadow,
+      pierceShadow: true,
+      includeSlotted: true,
+    };
+
+    doOnce('my-id', '.item', (el) => processed.push(el.id), options);
+    const removed = removeOnce('my-id', '.item', options);
+
+    expect(processed).toEqual(['shadow', 'nested', 'slotted']);
+    expect(ids(removed)).toEqual(processed);
+  });
+
+  test('createOnce passes shadow options as defaults', () => {
+    setup();
+    const once = createOnce({
+      context: document as unknown as Document,
+      pierceShadow: true,
+    });
+
+    expect(ids(once.querySelectorOnce('my-id', '.item'))).toEqual([
+      'light',
+      'slotted',
+      'shadow',
+      'nested',
+    ]);
+  });
+});
+
+describe('frames', () => {
+  /** Builds an iframe whose contentDocument is a document from a separate window (realm). */
+  const setup = (contentDocument: unknown = new Window().document) => {
+    document.body.innerHTML =
+      '<div class="item" id="outer"></div><iframe id="frame"></iframe>';
+    const iframe = document.getElementById('frame');
+    if (!iframe) throw new Error('Iframe not created');
+    Object.defineProperty(iframe, 'contentDocument', {
+      get: () => {
+        if (contentDocument instanceof Error) throw contentDocument;
+        return contentDocument;
+      },
+    });
+    return contentDocument as Document;
+  };
+  const ids = (elements: Element[]) => elements.map((el) => el.id);
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('accepts elements from another realm as selectors', () => {
+    const frameDocument = new Window().document;
+    const el = frameDocument.createElement('div');
+    frameDocument.body.appendChild(el);
+
+    const processed: Element[] = [];
+
+    doOnce('my-id', el as unknown as Element, (item) => processed.push(item));
+
+    expect(processed).toEqual([el]);
+    expect(el.getAttribute('data-dom-once')).toBe('my-id');
+    expect(removeOnce('my-id', [el as unknown as Element])).toEqual([el]);
+  });
+
+  test('accepts another realm document as context', () => {
+    const frameDocument = new Window().document;
+    frameDocument.body.innerHTML = '<div class="item" id="inner"></div>';
+
+    const result = querySelectorOnce('my-id', '.item', {
+      context: frameDocument as unknown as Document,
+    });
+
+    expect(ids(result)).toEqual(['inner']);
+  });
+
+  test('skips frame documents by default', () => {
+    const frameDocument = setup();
+    frameDocument.body.innerHTML = '<div class="item" id="inner"></div>';
+
+    const result = querySelectorOnce('my-id', '.item', {
+      context: document as unknown as Document,
+    });
+
+    expect(ids(result)).toEqual(['outer']);
+  });
+
+  test('queries same-origin frame documents with frames: true', () => {
+    const frameDocument = setup();
+    frameDocument.body.innerHTML = '<div class="item" id="inner"></div>';
+
+    const result = querySelectorOnce('my-id', '.item', {
+      context: document as unknown as Document,
+      frames: true,
+    });
+
+    expect(ids(result)).toEqual(['outer', 'inner']);
+    expect(
+      findOnce('my-id', {
+        context: document as unknown as Document,
+        frames: true,
+      }),
+    ).toHaveLength(2);
+  });
+
+  test('skips unloaded and cross-origin frames', () => {
+    setup(null);
+    const options = {
+      context: document as unknown as Document,
+      frames: true,
+    };
+    expect(ids(querySelectorOnce('my-id', '.item', options))).toEqual([
+      'outer',
+    ]);
+
+    setup(new DOMException('Blocked', 'SecurityError'));
+    expect(ids(querySelectorOnce('other-id', '.item', options))).toEqual([
+      'outer',
+    ]);
+  });
+});
+
+describe('runOnce', () => {
+  const hasRun = (onceId: string, target: object = globalThis) =>
+    getOnceIds(target).includes(onceId);
+
+  afterEach(() => {
+    removeOnce('global-id', globalThis);
+  });
+
+  test('runs once and returns the memoized result', () => {
+    let calls = 0;
+    const fn = () => ++calls;
+
+    expect(runOnce('global-id', fn)).toBe(1);
+    expect(runOnce('global-id', fn)).toBe(1);
+    expect(calls).toBe(1);
+    expect(hasRun('global-id')).toBe(true);
+  });
+
+  test('leaves the guard unmarked when fn throws', () => {
+    expect(() =>
+      runOnce('global-id', () => {
+        throw new Error('Boom');
+      }),
+    ).toThrow('Boom');
+    expect(hasRun('global-id')).toBe(false);
+    expect(runOnce('global-id', () => 'ok')).toBe('ok');
+  });
+
+  test('removeOnce on globalThis allows running again', () => {
+    runOnce('global-id', () => 'first');
+
+    expect(getOnceIds(globalThis)).toContain('global-id');
+    expect(removeOnce('global-id', globalThis)).toEqual([]);
+    expect(hasRun('global-id')).toBe(false);
+    expect(runOnce('global-id', () => 'second')).toBe('second');
+  });
+
+  test('a nested call with the same once id throws instead of recursing', () => {
+    const fn = (): unknown => runOnce('global-id', fn);
+
+    expect(() => runOnce('global-id', fn)).toThrow(
+      'runOnce "global-id" was called again while running',
+    );
+    expect(hasRun('global-id')).toBe(false);
+    expect(runOnce('global-id', () => 'ok')).toBe('ok');
+  });
+
+  test('memoizes returned promises', async () => {
+    let calls = 0;
+    const load = async () => ++calls;
+
+    const first = runOnce('global-id', load);
+    expect(runOnce('global-id', load)).toBe(first);
+    expect(await first).toBe(1);
+  });
+
+  test('runOnceFor guards per object', () => {
+    const a = {};
+    const b = {};
+    const seen: object[] = [];
+
+    runOnceFor(a, 'patch', (target) => seen.push(target));
+    runOnceFor(a, 'patch', (target) => seen.push(target));
+    runOnceFor(b, 'patch', (target) => seen.push(target));
+
+    expect(seen).toEqual([a, b]);
+    expect(seen[0]).toBe(a);
+    expect(getOnceIds(a)).toEqual(['patch']);
+    expect(hasRun('patch')).toBe(false);
+    removeOnce('patch', b);
+    expect(getOnceIds(b)).toEqual([]);
+    expect(runOnceFor(b, 'patch', () => 'again')).toBe('again');
+  });
+
+  test('runOnceFor marks element targets, so element functions see the guard', () => {
+    document.body.innerHTML = '<div id="guarded"></div>';
+    const el = document.getElementById('guarded') as unknown as Element;
+    let calls = 0;
+
+    runOnceFor(el, 'patch', () => ++calls);
+    expect(runOnceFor(el, 'patch', () => ++calls)).toBe(1);
+    expect(getOnceIds(el)).toEqual(['patch']);
+    expect(findOnce('patch', { context: context() })).toEqual([el]);
+    expect(inspectOnce(context()).get('patch')).toEqual([el]);
+
+    removeOnce('patch', el);
+    expect(runOnceFor(el, 'patch', () => ++calls)).toBe(2);
+  });
+
+  test('global and per-object guards are independent', () => {
+    const target = {};
+    runOnce('global-id', () => 'global');
+
+    expect(runOnceFor(target, 'global-id', () => 'object')).toBe('object');
+  });
+
+  test('invalid arguments throw', () => {
+    expect(() => runOnce('invalid id', () => {})).toThrow(
+      'Invalid once ID: "invalid id"',
+    );
+    expect(() => runOnce('global-id', null as unknown as () => void)).toThrow(
+      'fn must be a function',
+    );
+    expect(() =>
+      runOnceFor('string' as unknown as object, 'patch', () => {}),
+    ).toThrow('target must be an object or function');
+    expect(() =>
+      runOnceFor({}, 'patch', () => {}, {
+        onceAttribute: 'bad' as unknown as 'data-x',
+      }),
+    ).toThrow('Invalid data attribute: "bad"');
+  });
+});
+
+describe('versioned once ids', () => {
+  beforeEach(() => {
+    document.body.innerHTML =
+      '<button id="a"></button><button id="b" data-dom-once="btn-init@1"></button><button id="c" data-dom-once="btn-init other"></button>';
+  });
+  const attr = (id: string) =>
+    document.getElementById(id)?.getAttribute('data-dom-once');
+
+  test('doOnce stores versioned tokens and replaces other versions', () => {
+    const processed: string[] = [];
+    const migrated: [string, string | undefined][] = [];
+
+    doOnce('btn-init', 'button', (el) => processed.push(el.id), {
+      context: context(),
+      version: 2,
+      migrate: (el, previousVersion) => migrated.push([el.id, previousVersion]),
+    });
+
+    expect(processed).toEqual(['a', 'b', 'c']);
+    expect(migrated).toEqual([
+      ['b', '1'],
+      ['c', undefined],
+    ]);
+    expect(attr('a')).toBe('btn-init@2');
+    expect(attr('b')).toBe('btn-init@2');
+    expect(attr('c')).toBe('other btn-init@2');
+  });
+
+  test('skips elements marked with the same version', () => {
+    const processed: string[] = [];
+
+    doOnce('btn-init', 'button', (el) => processed.push(el.id), {
+      context: context(),
+      version: '1',
+    });
+
+    expect(processed).toEqual(['a', 'c']);
+  });
+
+  test('keeps the old token when the callback throws', () => {
+    expect(() =>
+      doOnce(
+        'btn-init',
+        '#b',
+        () => {
+          throw new Error('Boom');
+        },
+        { context: context(), version: 2 },
+      ),
+    ).toThrow('Boom');
+    expect(attr('b')).toBe('btn-init@1');
+  });
+
+  test('runs the disposer of the previous version', () => {
+    const log: string[] = [];
+    const options = { context: context() };
+
+    doOnce('widget', '#a', () => () => log.push('dispose v1'), {
+      ...options,
+      version: 1,
+    });
+    doOnce('widget', '#a', () => log.push('init v2'), {
+      ...options,
+      version: 2,
+      migrate: () => log.push('migrate'),
+    });
+
+    expect(log).toEqual(['dispose v1', 'migrate', 'init v2']);
+  });
+
+  test('querySelectorOnce supports versions', () => {
+    const result = querySelectorOnce('btn-init', 'button', {
+      context: context(),
+      version: 1,
+    });
+
+    expect(result.map((el) => el.id)).toEqual(['a', 'c']);
+    expect(attr('c')).toBe('other btn-init@1');
+  });
+
+  test('doOnceAsync supports versions', async () => {
+    const migrated: string[] = [];
+
+    const result = await doOnceAsync('btn-init', '#b', async () => {}, {
+      context: context(),
+      version: 2,
+      migrate: (_el, previousVersion) => migrated.push(previousVersion ?? ''),
+    });
+
+    expect(result).toHaveLength(1);
+    expect(migrated).toEqual(['1']);
+    expect(attr('b')).toBe('btn-init@2');
+  });
+
+  test('findOnce filters by exact or any version', () => {
+    const ids = (elements: Element[]) => elements.map((el) => el.id);
+
+    expect(ids(findOnce('btn-init', { context: context() }))).toEqual([
+      'b',
+      'c',
+    ]);
+    expect(
+      ids(findOnce('btn-init', { context: context(), version: 1 })),
+    ).toEqual(['b']);
+    expect(
+      ids(findOnce('btn-init', { context: context(), version: '*' })),
+    ).toEqual(['b', 'c']);
+  });
+
+  test('findOnce matches any version with the memory store', () => {
+    const options = { context: context(), store: 'memory' as const };
+    doOnce('mem-init', '#a', () => {}, { ...options, version: 1 });
+    doOnce('mem-init', '#b', () => {}, options);
+
+    expect(
+      findOnce('mem-init', { ...options, version: '*' }).map((el) => el.id),
+    ).toEqual(['a', 'b']);
+    removeOnce('mem-init', 'button', { ...options, version: '*' });
+  });
+
+  test('removeOnce removes an exact version or any version', () => {
+    expect(
+      removeOnce('btn-init', 'button', { context: context(), version: 2 }),
+    ).toEqual([]);
+
+    const removed = removeOnce('btn-init', 'button', {
+      context: context(),
+      version: '*',
+    });
+
+    expect(removed.map((el) => el.id)).toEqual(['b', 'c']);
+    expect(attr('b')).toBeNull();
+    expect(attr('c')).toBe('other');
+  });
+
+  test('disposeOnce removes any version', () => {
+    const disposed = disposeOnce('btn-init', {
+      context: context(),
+      version: '*',
+    });
+
+    expect(disposed).toHaveLength(2);
+  });
+
+  test('unversioned calls treat any version as processed', () => {
+    const processed: string[] = [];
+
+    doOnce('btn-init', 'button', (el) => processed.push(el.id), {
+      context: context(),
+    });
+    const queried = querySelectorOnce('btn-init', 'button', {
+      context: context(),
+    });
+
+    expect(processed).toEqual(['a']);
+    expect(queried).toEqual([]);
+    expect(attr('b')).toBe('btn-init@1');
+  });
+
+  test('unversioned removeOnce clears versioned marks so doOnce runs again', () => {
+    const processed: string[] = [];
+    const redo = () =>
+      doOnce('btn-init', '#b', (el) => processed.push(el.id), {
+        context: context(),
+      });
+
+    redo();
+    expect(removeOnce('btn-init', '#b', { context: context() })).toHaveLength(
+      1,
+    );
+    expect(attr('b')).toBeNull();
+    redo();
+
+    expect(processed).toEqual(['b']);
+    expect(attr('b')).toBe('btn-init');
+    expect(
+      disposeOnce('btn-init', { context: context() }).map((el) => el.id),
+    ).toEqual(['b', 'c']);
+  });
+
+  test('watchDetachOnce and detachBehaviors detect versioned marks', async () => {
+    const body = document.body as unknown as Element;
+    const detached: string[] = [];
+    const watcher = watchDetachOnce('btn-init', (el) => detached.push(el.id), {
+      context: body,
+      removeOnce: true,
+    });
+    const b = document.getElementById('b') as unknown as Element;
+    try {
+      b.remove();
+      await flushMutations();
+    } finally {
+      watcher.disconnect();
+    }
+    expect(detached).toEqual(['b']);
+    expect(b.hasAttribute('data-dom-once')).toBe(false);
+
+    const behaviorDetached: string[] = [];
+    defineBehavior('btn-init', {
+      selector: 'button',
+      attach: () => {},
+      detach: (el) => behaviorDetached.push(el.id),
+    });
+    try {
+      doOnce('btn-init', '#a', () => {}, { context: context(), version: 3 });
+      detachBehaviors(body);
+    } finally {
+      removeBehavior('btn-init');
+    }
+    expect(behaviorDetached).toEqual(['a', 'c']);
+    expect(attr('a')).toBeNull();
+    expect(attr('c')).toBe('other');
+  });
+
+  test('invalid versions throw', () => {
+    expect(() =>
+      doOnce('btn-init', 'button', () => {}, { version: 'v 2' }),
+    ).toThrow('Invalid version: "v 2"');
+    expect(() =>
+      querySelectorOnce('btn-init', 'button', { version: '*' }),
+    ).toThrow('Invalid version: "*"');
+    expect(() =>
+      doOnce('btn-init', 'button', () => {}, {
+        version: 1,
+        migrate: 'nope' as unknown as () => void,
+      }),
+    ).toThrow('migrate must be a function');
+  });
+});
+
+describe('expiring marks', () => {
+  let time = 1000;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 1000;
+    document.body.innerHTML = '<div class="card" id="a"></div>';
+  });
+
+  test('records expiry in a companion attribute', () => {
+    doOnce('nudge', '.card', () => {}, { context: context(), ttl: 500, now });
+
+    const el = document.getElementById('a');
+    expect(el?.getAttribute('data-dom-once')).toBe('nudge');
+    expect(el?.getAttribute('data-dom-once-expires')).toBe('nudge=1500');
+  });
+
+  test('doOnce re-runs after expiry and runs the previous disposer', () => {
+    const log: string[] = [];
+    const run = () =>
+      doOnce(
+        'nudge',
+        '.card',
+        () => {
+          log.push('run');
+          return () => log.push('dispose');
+        },
+        { context: context(), ttl: 500, now },
+      );
+
+    run();
+    time = 1499;
+    run();
+    expect(log).toEqual(['run']);
+
+    time = 1500;
+    run();
+    expect(log).toEqual(['run', 'dispose', 'run']);
+    expect(
+      document.getElementById('a')?.getAttribute('data-dom-once-expires'),
+    ).toBe('nudge=2000');
+  });
+
+  test('findOnce excludes expired marks', () => {
+    querySelectorOnce('nudge', '.card', { context: context(), ttl: 500, now });
+
+    expect(findOnce('nudge', { context: context(), now })).toHaveLength(1);
+    expect(
+      findOnce('nudge', { context: context(), version: '*', now }),
+    ).toHaveLength(1);
+
+    time = 2000;
+    expect(findOnce('nudge', { context: context(), now })).toEqual([]);
+    expect(
+      findOnce('nudge', { context: context(), version: '*', now }),
+    ).toEqual([]);
+  });
+
+  test('marking without ttl makes the mark permanent', () => {
+    querySelectorOnce('nudge', '.card', { context: context(), ttl: 500, now });
+    time = 2000;
+    querySelectorOnce('nudge', '.card', { context: context(), now });
+
+    const el = document.getElementById('a');
+    expect(el?.hasAttribute('data-dom-once-expires')).toBe(false);
+    time = 10000;
+    expect(findOnce('nudge', { context: context(), now })).toHaveLength(1);
+  });
+
+  test('removeOnce clears the expiry', () => {
+    doOnce('nudge', '.card', () => {}, { context: context(), ttl: 500, now });
+    doOnce('other', '.card', () => {}, { context: context(), ttl: 900, now });
+    removeOnce('nudge', '.card', { context: context() });
+
+    expect(
+      document.getElementById('a')?.getAttribute('data-dom-once-expires'),
+    ).toBe('other=1900');
+  });
+
+  test('memory store keeps expiries in memory', () => {
+    const options = { context: context(), store: 'memory' as const, now };
+    const processed: Element[] = [];
+
+    doOnce('nudge', '.card', (el) => processed.push(el), {
+      ...options,
+      ttl: 500,
+    });
+    expect(
+      document.getElementById('a')?.hasAttribute('data-dom-once-expires'),
+    ).toBe(false);
+    expect(findOnce('nudge', options)).toHaveLength(1);
+
+    time = 1500;
+    expect(findOnce('nudge', options)).toEqual([]);
+    doOnce('nudge', '.card', (el) => processed.push(el), options);
+    expect(processed).toHaveLength(2);
+    removeOnce('nudge', '.card', options);
+  });
+
+  test('doOnceAsync re-runs after expiry', async () => {
+    let runs = 0;
+    const options = { context: context(), ttl: 500, now };
+
+    await doOnceAsync('nudge', '.card', async () => void runs++, options);
+    await doOnceAsync('nudge', '.card', async () => void runs++, options);
+    time = 1500;
+    await doOnceAsync('nudge', '.card', async () => void runs++, options);
+
+    expect(runs).toBe(2);
+  });
+
+  test('invalid ttl or clock throws', () => {
+    expect(() => doOnce('nudge', '.card', () => {}, { ttl: 0 })).toThrow(
+      'ttl must be a positive number of milliseconds',
+    );
+    expect(() =>
+      querySelectorOnce('nudge', '.card', { ttl: Number.NaN }),
+    ).toThrow('ttl must be a positive number of milliseconds');
+    expect(() =>
+      findOnce('nudge', { now: 5 as unknown as () => number }),
+    ).toThrow('now must be a function');
+  });
+});
+
+describe('doTimes', () => {
+  const card = () => document.getElementById('a') as unknown as Element;
+
+  beforeEach(() => {
+    document.body.innerHTML =
+      '<div class="card" id="a"></div><div class="card" id="b"></div>';
+  });
+
+  test('runs up to n times per element', () => {
+    const runs: string[] = [];
+    const render = () =>
+      doTimes(
+        'hint',
+        2,
+        '.card',
+        (el, count) => runs.push(`${el.id}${count}`),
+        {
+          context: context(),
+        },
+      );
+
+    expect(render()).toHaveLength(2);
+    expect(render()).toHaveLength(2);
+    expect(render()).toEqual([]);
+    expect(runs).toEqual(['a1', 'b1', 'a2', 'b2']);
+    expect(getOnceCount('hint', card())).toBe(2);
+    expect(card().getAttribute('data-dom-once')).toBe('hint');
+    expect(card().getAttribute('data-dom-once-count')).toBe('hint=2');
+  });
+
+  test('accepts elements, arrays, and NodeLists', () => {
+    const el = card();
+    let runs = 0;
+
+    doTimes('hint', 3, el, () => runs++);
+    doTimes('hint', 3, [el, el], () => runs++);
+    const nodeList = (document as unknown as Document).querySelectorAll('#a');
+    doTimes('hint', 3, nodeList, () => runs++);
+
+    expect(runs).toBe(3);
+    expect(getOnceCount('hint', el)).toBe(3);
+  });
+
+  test('a throwing callback does not count', () => {
+    expect(() =>
+      doTimes('hint', 2, card(), () => {
+        throw new Error('Boom');
+      }),
+    ).toThrow('Boom');
+    expect(getOnceCount('hint', card())).toBe(0);
+  });
+
+  test('continueOnError collects failures', () => {
+    expect(() =>
+      doTimes(
+        'hint',
+        2,
+        '.card',
+        (el) => {
+          if (el.id === 'a') throw new Error('Boom');
+        },
+        { context: context(), continueOnError: true },
+      ),
+    ).toThrow(AggregateError);
+    expect(getOnceCount('hint', card())).toBe(0);
+    expect(
+      getOnceCount('hint', document.getElementById('b') as unknown as Element),
+    ).toBe(1);
+  });
+
+  test('elements marked by doOnce count as one run', () => {
+    doOnce('hint', card(), () => {});
+    const runs: number[] = [];
+
+    doTimes('hint', 2, card(), (_el, count) => runs.push(count));
+    doTimes('hint', 2, card(), (_el, count) => runs.push(count));
+
+    expect(runs).toEqual([2]);
+  });
+
+  test('removeOnce resets the count', () => {
+    doTimes('hint', 1, card(), () => {});
+    removeOnce('hint', card());
+
+    expect(getOnceCount('hint', card())).toBe(0);
+    expect(card().hasAttribute('data-dom-once-count')).toBe(false);
+  });
+
+  test('memory store keeps counts in memory', () => {
+    const options = { store: 'memory' as const };
+
+    doTimes('hint', 3, card(), () => {}, options);
+    doTimes('hint', 3, card(), () => {}, options);
+
+    expect(getOnceCount('hint', card(), options)).toBe(2);
+    expect(getOnceCount('hint', card())).toBe(0);
+    expect(card().hasAttribute('data-dom-once-count')).toBe(false);
+    removeOnce('hint', card(), options);
+  });
+
+  test('createOnce binds doTimes and getOnceCount', () => {
+    const once = createOnce({ onceAttribute: 'data-acme-once' });
+
+    once.doTimes('hint', 2, card(), () => {});
+
+    expect(once.getOnceCount('hint', card())).toBe(1);
+    expect(card().getAttribute('data-acme-once-count')).toBe('hint=1');
+  });
+
+  test('invalid arguments throw', () => {
+    expect(() => doTimes('hint', 0, card(), () => {})).toThrow(
+      'n must be a positive integer',
+    );
+    expect(() => doTimes('hint', 1.5, card(), () => {})).toThrow(
+      'n must be a positive integer',
+    );
+    expect(() =>
+      doTimes('hint', 1, card(), null as unknown as () => void),
+    ).toThrow('callback must be a function');
+    expect(() => getOnceCount('hint', {} as Element)).toThrow(
+      'element must be an Element',
+    );
+  });
+});
+
+describe('detailed results', () => {
+  const ids = (elements: Element[]) => elements.map((el) => el.id);
+
+  beforeEach(() => {
+    document.body.innerHTML =
+      '<div class="w" id="a"></div><div class="w" id="b" data-dom-once="init"></div><div class="w" id="c"></div>';
+  });
+
+  test('doOnce returns processed, skipped, and failed elements', () => {
+    const error = new Error('Boom');
+    const result = doOnce(
+      'init',
+      '.w',
+      (el) => {
+        if (el.id === 'a') throw error;
+      },
+      { context: context(), detailed: true },
+    );
+
+    expect(ids(result.processed)).toEqual(['c']);
+    expect(ids(result.skipped)).toEqual(['b']);
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0].element.id).toBe('a');
+    expect(result.failed[0].error).toBe(error);
+    expect(result.matched).toBe(3);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    expect(document.getElementById('a')?.hasAttribute('data-dom-once')).toBe(
+      false,
+    );
+  });
+
+  test('querySelectorOnce reports skipped elements', () => {
+    const result = querySelectorOnce('init', '.w', {
+      context: context(),
+      detailed: true,
+    });
+
+    expect(ids(result.processed)).toEqual(['a', 'c']);
+    expect(ids(result.skipped)).toEqual(['b']);
+    expect(result.failed).toEqual([]);
+    expect(result.matched).toBe(3);
+  });
+
+  test('removeOnce reports unmarked elements as skipped', () => {
+    const result = removeOnce('init', '.w', {
+      context: context(),
+      detailed: true,
+    });
+
+    expect(ids(result.processed)).toEqual(['b']);
+    expect(ids(result.skipped)).toEqual(['a', 'c']);
+  });
+
+  test('removeOnce reports throwing disposers as failures', () => {
+    const el = document.getElementById('a') as unknown as Element;
+    doOnce('dispose', el, () => () => {
+      throw new Error('Dispose failed');
+    });
+
+    const result = removeOnce('dispose', el, { detailed: true });
+
+    expect(result.processed).toEqual([]);
+    expect(result.failed[0].element).toBe(el);
+    expect(el.getAttribute('data-dom-once')).toBe('dispose');
+  });
+
+  test('empty selectors return an empty result', () => {
+    const result = doOnce('init', '', () => {}, { detailed: true });
+
+    expect(result).toMatchObject({
+      processed: [],
+      skipped: [],
+      failed: [],
+      matched: 0,
+    });
+  });
+
+  test('createOnce supports detailed mode', () => {
+    const once = createOnce({ context: context() });
+
+    const result = once.doOnce('init', '.w', () => {}, { detailed: true });
+
+    expect(result.matched).toBe(3);
+    expect(ids(once.querySelectorOnce('other', '#a'))).toEqual(['a']);
+  });
+});
+
+describe('hooks', () => {
+  const log: string[] = [];
+  const recorder: OnceHooks = {
+    onBeforeProcess: ({ operation, onceId, element }) =>
+      log.push(`before ${operation} ${onceId} ${element.id}`),
+    onProcessed: ({ operation, element }) =>
+      log.push(`processed ${operation} ${element.id}`),
+    onSkipped: ({ operation, element }) =>
+      log.push(`skipped ${operation} ${element.id}`),
+    onRemoved: ({ element }) => log.push(`removed ${element.id}`),
+    onError: ({ element }, error) =>
+      log.push(`error ${element.id} ${(error as Error).message}`),
+  };
+
+  beforeEach(() => {
+    log.length = 0;
+    document.body.innerHTML =
+      '<div class="w" id="a"></div><div class="w" id="b" data-dom-once="init"></div>';
+  });
+
+  afterEach(() => {
+    removeOnceHooks(recorder);
+  });
+
+  test('global hooks observe doOnce', () => {
+    addOnceHooks(recorder);
+
+    doOnce('init', '.w', () => {}, { context: context() });
+
+    expect(log).toEqual([
+      'before doOnce init a',
+      'processed doOnce a',
+      'skipped doOnce b',
+    ]);
+  });
+
+  test('hooks report callback errors', () => {
+    addOnceHooks(recorder);
+
+    expect(() =>
+      doOnce(
+        'init',
+        '#a',
+        () => {
+          throw new Error('Boom');
+        },
+        { context: context() },
+      ),
+    ).toThrow('Boom');
+    expect(log).toEqual(['before doOnce init a', 'error a Boom']);
+  });
+
+  test('per-call hooks observe querySelectorOnce and removeOnce', () => {
+    querySelectorOnce('init', '.w', { context: context(), hooks: recorder });
+    removeOnce('init', '#b', { context: context(), hooks: recorder });
+    removeOnce('other', '#a', { context: context(), hooks: recorder });
+
+    expect(log).toEqual([
+      'before querySelectorOnce init a',
+      'processed querySelectorOnce a',
+      'skipped querySelectorOnce b',
+      'removed b',
+      'skipped removeOnce a',
+    ]);
+  });
+
+  test('global hooks run before per-call hooks', () => {
+    const order: string[] = [];
+    const global: OnceHooks = { onProcessed: () => order.push('global') };
+    addOnceHooks(global);
+
+    doOnce('init', '#a', () => {}, {
+      context: context(),
+      hooks: { onProcessed: () => order.push('local') },
+    });
+    removeOnceHooks(global);
+
+    expect(order).toEqual(['global', 'local']);
+  });
+
+  test('removeOnceHooks stops the hooks', () => {
+    addOnceHooks(recorder);
+
+    expect(removeOnceHooks(recorder)).toBe(true);
+    expect(removeOnceHooks(recorder)).toBe(false);
+    doOnce('init', '#a', () => {}, { context: context() });
+    expect(log).toEqual([]);
+  });
+
+  test('doOnceAsync and doTimes call hooks', async () => {
+    await doOnceAsync('init', '.w', async () => {}, {
+      context: context(),
+      hooks: recorder,
+    });
+    doTimes('init', 2, '.w', () => {}, { context: context(), hooks: recorder });
+    await expect(
+      doOnceAsync(
+        'other',
+        '#a',
+        async () => {
+          throw new Error('boom');
+        },
+        { context: context(), hooks: recorder },
+      ),
+    ).rejects.toThrow('boom');
+
+    // doOnceAsync claims its elements up front, so skips are reported first
+    expect(log).toEqual([
+      'skipped doOnceAsync b',
+      'before doOnceAsync init a',
+      'processed doOnceAsync a',
+      'before doTimes init a',
+      'processed doTimes a',
+      'before doTimes init b',
+      'processed doTimes b',
+      'before doOnceAsync other a',
+      'error a boom',
+    ]);
+  });
+
+  test('onOnce calls hooks through doOnceAsync', () => {
+    const off = onOnce('clicked', 'click', '.w', () => {}, {
+      context: context(),
+      hooks: recorder,
+    });
+    try {
+      document
+        .getElementById('a')!
+        .dispatchEvent(new window.Event('click', { bubbles: true }));
+    } finally {
+      off();
+    }
+
+    expect(log).toEqual([
+      'before doOnceAsync clicked a',
+      'processed doOnceAsync a',
+    ]);
+  });
+
+  test('createOnce passes instance hooks', () => {
+    const once = createOnce({ context: context(), hooks: recorder });
+
+    once.doOnce('init', '#a', () => {});
+
+    expect(log).toEqual(['before doOnce init a', 'processed doOnce a']);
+  });
+
+  test('createOnce runs call hooks in addition to instance hooks', () => {
+    const order: string[] = [];
+    const once = createOnce({
+      context: context(),
+      hooks: { onProcessed: () => order.push('instance') },
+    });
+
+    once.doOnce('init', '#a', () => {}, {
+      hooks: { onProcessed: () => order.push('call') },
+    });
+
+    expect(order).toEqual(['instance', 'call']);
+    expect(() =>
+      once.doOnce('init', '#b', () => {}, {
+        hooks: 'nope' as unknown as OnceHooks,
+      }),
+    ).toThrow('hooks must be an object');
+  });
+
+  test('performanceHooks records measures named after the once id', () => {
+    performance.clearMeasures();
+    const hooks = performanceHooks('test');
+
+    doOnce('perf-id', '#a', () => {}, { context: context(), hooks });
+    removeOnce('perf-id', '#a', { context: context(), hooks });
+
+    expect(
+      performance.getEntriesByName('test:perf-id', 'measure'),
+    ).toHaveLength(1);
+    expect(
+      performance.getEntriesByName('test:perf-id:removed', 'mark'),
+    ).toHaveLength(1);
+    expect(
+      performance.getEntriesByName('test:perf-id:start', 'mark'),
+    ).toHaveLength(0);
+  });
+
+  test('performanceHooks measures nested calls with the same once id', () => {
+    performance.clearMeasures();
+    document.body.innerHTML =
+      '<div class="tree" id="outer"><div class="tree" id="inner"></div></div>';
+    const hooks = performanceHooks('test');
+    const initTree = (el: Element) =>
+      doOnce('tree', el.querySelectorAll('.tree'), initTree, {
+        context: context(),
+        hooks,
+      });
+
+    expect(() => initTree(document.body as unknown as Element)).not.toThrow();
+    expect(performance.getEntriesByName('test:tree', 'measure')).toHaveLength(
+      2,
+    );
+  });
+
+  test('performanceHooks never throws from User Timing errors', () => {
+    const hooks = performanceHooks('test');
+    const measure = vi.spyOn(performance, 'measure').mockImplementation(() => {
+      throw new SyntaxError('unsupported');
+    });
+
+    try {
+      doOnce('perf-id', '#a', () => {}, { context: context(), hooks });
+    } finally {
+      measure.mockRestore();
+    }
+
+    expect(findOnce('perf-id', { context: context() })).toHaveLength(1);
+  });
+
+  test('invalid hooks throw', () => {
+    expect(() => addOnceHooks(null as unknown as OnceHooks)).toThrow(
+      'hooks must be an object',
+    );
+    expect(() =>
+      doOnce('init', '#a', () => {}, { hooks: 'nope' as unknown as OnceHooks }),
+    ).toThrow('hooks must be an object');
+  });
+});
+
+describe('debug mode', () => {
+  let warnings: string[] = [];
+
+  beforeEach(() => {
+    warnings = [];
+    vi.spyOn(console, 'groupCollapsed').mockImplementation((message) => {
+      warnings.push(String(message));
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'trace').mockImplementation(() => {});
+    vi.spyOn(console, 'groupEnd').mockImplementation(() => {});
+    document.body.innerHTML = '<div class="w" id="a"></div>';
+    setDebug(true);
+  });
+
+  afterEach(() => {
+    setDebug(false);
+    vi.restoreAllMocks();
+  });
+
+  test('is silent when disabled', () => {
+    setDebug(false);
+
+    doOnce('debug-off', '.typo', () => {}, { context: context() });
+
+    expect(warnings).toEqual([]);
+  });
+
+  test('warns when a selector matches nothing', () => {
+    doOnce('debug-a', '.typo', () => {}, { context: context() });
+    querySelectorOnce('debug-b', '.typo', { context: context() });
+
+    expect(warnings).toEqual([
+      '[dom-once] doOnce("debug-a") selector ".typo" matched no elements',
+      '[dom-once] querySelectorOnce("debug-b") selector ".typo" matched no elements',
+    ]);
+    expect(console.trace).toHaveBeenCalledWith('Call site');
+  });
+
+  test('warns on empty collections', () => {
+    const empty = context().querySelectorAll('.typo');
+
+    doOnce('debug-c', empty, () => {});
+
+    expect(warnings).toEqual([
+      '[dom-once] doOnce("debug-c") received no elements',
+    ]);
+  });
+
+  test('warns about skipped non-Element values', () => {
+    const el = document.getElementById('a') as unknown as Element;
+
+    doOnce('debug-d', [el, 'text', null] as unknown as Element[], () => {});
+
+    expect(warnings).toEqual([
+      '[dom-once] Skipped 2 non-Element value(s) in the selector collection',
+    ]);
+  });
+
+  test('warns when a once id is reused by a different callback', () => {
+    const el = document.getElementById('a') as unknown as Element;
+    const init = () => {};
+    const other = () => 'unrelated';
+
+    doOnce('debug-e', el, init);
+    doOnce('debug-e', el, init);
+    doOnce('debug-e', el, () => {});
+    expect(warnings).toEqual([]);
+
+    doOnce('debug-e', el, other);
+    expect(warnings).toEqual([
+      '[dom-once] Once ID "debug-e" is used by different callbacks',
+    ]);
+  });
+
+  test('warns once when an element receives too many once ids', () => {
+    setDebug(true, { maxOnceIds: 2 });
+    const el = document.getElementById('a') as unknown as Element;
+
+    querySelectorOnce('debug-f1', '#a', { context: context() });
+    querySelectorOnce('debug-f2', '#a', { context: context() });
+    expect(warnings).toEqual([]);
+
+    querySelectorOnce('debug-f3', '#a', { context: context() });
+    querySelectorOnce('debug-f4', '#a', { context: context() });
+    expect(warnings).toEqual([
+      '[dom-once] Element has 3 once ids (more than 2)',
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(el, [
+      'debug-f1',
+      'debug-f2',
+      'debug-f3',
+    ]);
+  });
+
+  test('does not warn for watchOnce initial passes', () => {
+    const watcher = watchOnce('debug-g', '.later', () => {}, {
+      context: context(),
+    });
+    watcher.disconnect();
+
+    expect(warnings).toEqual([]);
+  });
+
+  test('invalid maxOnceIds throws', () => {
+    expect(() => setDebug(true, { maxOnceIds: 0 })).toThrow(
+      'maxOnceIds must be a positive integer',
+    );
+  });
+});
+
+describe('inspectOnce', () => {
+  const byId = (id: string) =>
+    document.getElementById(id) as unknown as Element;
+
+  beforeEach(() => {
+    document.body.innerHTML =
+      '<div id="a" data-dom-once="init tooltip"></div><div id="b"></div><div id="c" data-dom-once="init"></div>';
+  });
+
+  test('maps once ids to the elements carrying them', () => {
+    const inventory = inspectOnce(context());
+
+    expect([...inventory.keys()]).toEqual(['init', 'tooltip']);
+    expect(inventory.get('init')).toEqual([byId('a'), byId('c')]);
+    expect(inventory.get('tooltip')).toEqual([byId('a')]);
+  });
+
+  test('scans within a context element', () => {
+    document.body.innerHTML =
+      '<section id="s"><div id="in" data-dom-once="x"></div></section><div data-dom-once="y"></div>';
+
+    const inventory = inspectOnce(byId('s'));
+
+    expect([...inventory.keys()]).toEqual(['x']);
+  });
+
+  test('reports versioned tokens as stored', () => {
+    doOnce('btn', '#b', () => {}, { context: context(), version: 2 });
+
+    expect(inspectOnce(context()).get('btn@2')).toEqual([byId('b')]);
+  });
+
+  test('supports custom attributes and the memory store', () => {
+    querySelectorOnce('custom', '#b', {
+      context: context(),
+      onceAttribute: 'data-custom',
+    });
+    querySelectorOnce('mem', '#b', { context: context(), store: 'memory' });
+
+    expect([
+      ...inspectOnce(context(), { onceAttribute: 'data-custom' }).keys(),
+    ]).toEqual(['custom']);
+    expect([...inspectOnce(context(), { store: 'memory' }).keys()]).toEqual([
+      'mem',
+    ]);
+    removeOnce('mem', '#b', { context: context(), store: 'memory' });
+  });
+
+  test('returns an empty map when nothing is marked', () => {
+    document.body.innerHTML = '<div></div>';
+
+    expect(inspectOnce(context()).size).toBe(0);
+  });
+
+  test('getOnceIds lists an element once ids', () => {
+    expect(getOnceIds(byId('a'))).toEqual(['init', 'tooltip']);
+    expect(getOnceIds(byId('b'))).toEqual([]);
+    expect(() => getOnceIds({} as Element)).toThrow(
+      'element must be an Element',
+    );
+  });
+
+  test('createOnce binds inspectOnce to its context and attribute', () => {
+    document.body.innerHTML =
+      '<div id="x" data-acme-once="one"></div><div data-dom-once="two"></div>';
+    const once = createOnce({
+      context: context(),
+      onceAttribute: 'data-acme-once',
+    });
+
+    expect([...once.inspectOnce().keys()]).toEqual(['one']);
+    expect(once.getOnceIds(byId('x'))).toEqual(['one']);
+  });
+});
+
+describe('doOnceWhenVisible', () => {
+  /** Minimal IntersectionObserver that records targets and lets tests trigger entries. */
+  class FakeIntersectionObserver {
+    static instances: FakeIntersectionObserver[] = [];
+    observed = new Set<Element>();
+    disconnected = false;
+
+    constructor(
+      private callback: (entries: Partial<IntersectionObserverEntry>[]) => void,
+      public options: IntersectionObserverInit,
+    ) {
+      FakeIntersectionObserver.instances.push(this);
+    }
+
+    observe(element: Element) {
+      this.observed.add(element);
+    }
+
+    unobserve(element: Element) {
+      this.observed.delete(element);
+    }
+
+    disconnect() {
+      this.disconnected = true;
+      this.observed.clear();
+    }
+
+    trigger(elements: Element[], isIntersecting = true) {
+      this.callback(elements.map((target) => ({ target, isIntersecting })));
+    }
+  }
+
+  const byId = (id: string) =>
+    document.getElementById(id) as unknown as Element;
+
+  beforeEach(() => {
+    FakeIntersectionObserver.instances = [];
+    vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+    document.body.innerHTML =
+      '<div class="c" id="a"></div><div class="c" id="b"></div><div class="c" id="done" data-dom-once="carousel"></div>';
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('runs the callback when an element first intersects', () => {
+    const processed: string[] = [];
+
+    doOnceWhenVisible('carousel', '.c', (el) => processed.push(el.id), {
+      context: context(),
+      rootMargin: '200px',
+      threshold: 0.5,
+    });
+    const [observer] = FakeIntersectionObserver.instances;
+
+    expect(observer.options).toEqual({ rootMargin: '200px', threshold: 0.5 });
+    expect([...observer.observed]).toEqual([byId('a'), byId('b')]);
+
+    observer.trigger([byId('a')], false);
+    expect(processed).toEqual([]);
+
+    observer.trigger([byId('a')]);
+    expect(processed).toEqual(['a']);
+    expect(byId('a').getAttribute('data-dom-once')).toBe('carousel');
+    expect(observer.observed.has(byId('a'))).toBe(false);
+    expect(observer.disconnected).toBe(false);
+
+    observer.trigger([byId('b')]);
+    expect(processed).toEqual(['a', 'b']);
+    expect(observer.disconnected).toBe(true);
+  });
+
+  test('shares observers per option set', () => {
+    const watchers = [
+      doOnceWhenVisible('one', '#a', () => {}, { context: context() }),
+      doOnceWhenVisible('two', '#b', () => {}, { context: context() }),
+      doOnceWhenVisible('three', '#a', () => {}, {
+        context: context(),
+        rootMargin: '100px',
+      }),
+    ];
+
+    expect(FakeIntersectionObserver.instances).toHaveLength(2);
+    const [shared, other] = FakeIntersectionObserver.instances;
+    expect([...shared.observed]).toEqual([byId('a'), byId('b')]);
+
+    watchers.forEach((watcher) => watcher.disconnect());
+    expect(shared.disconnected).toBe(true);
+    expect(other.disconnected).toBe(true);
+  });
+
+  test('runs every pending call for an element', () => {
+    const processed: string[] = [];
+    doOnceWhenVisible('one', '#a', () => processed.push('one'), {
+      context: context(),
+    });
+    doOnceWhenVisible('two', '#a', () => processed.push('two'), {
+      context: context(),
+    });
+
+    FakeIntersectionObserver.instances[0].trigger([byId('a')]);
+
+    expect(processed).toEqual(['one', 'two']);
+    expect(byId('a').getAttribute('data-dom-once')).toBe('one two');
+  });
+
+  test('skips elements processed by doOnce in the meantime', () => {
+    const processed: string[] = [];
+    doOnceWhenVisible('carousel', '#a', () => processed.push('visible'), {
+      context: context(),
+    });
+    doOnce('carousel', '#a', () => processed.push('eager'), {
+      context: context(),
+    });
+
+    FakeIntersectionObserver.instances[0].trigger([byId('a')]);
+
+    expect(processed).toEqual(['eager']);
+  });
+
+  test('does not observe when every element is already marked', () => {
+    doOnceWhenVisible('carousel', '#done', () => {}, { context: context() });
+
+    const [observer] = FakeIntersectionObserver.instances;
+    expect(observer.observed.size).toBe(0);
+    expect(observer.disconnected).toBe(true);
+  });
+
+  test('disconnect stops waiting for pending elements', () => {
+    const processed: string[] = [];
+    const watcher = doOnceWhenVisible(
+      'carousel',
+      '.c',
+      (el) => processed.push(el.id),
+      { context: context() },
+    );
+    const [observer] = FakeIntersectionObserver.instances;
+
+    watcher.disconnect();
+    observer.trigger([byId('a')]);
+
+    expect(processed).toEqual([]);
+    expect(observer.disconnected).toBe(true);
+  });
+
+  test('processes elements immediately without IntersectionObserver', () => {
+    vi.stubGlobal('IntersectionObserver', undefined);
+    const processed: string[] = [];
+
+    doOnceWhenVisible('carousel', '.c', (el) => processed.push(el.id), {
+      context: context(),
+    });
+
+    expect(processed).toEqual(['a', 'b']);
+  });
+
+  test('a throwing callback does not stop other visible elements', () => {
+    const processed: string[] = [];
+    doOnceWhenVisible(
+      'carousel',
+      '.c',
+      (el) => {
+        if (el.id === 'a') throw new Error('boom');
+        processed.push(el.id);
+      },
+      { context: context() },
+    );
+    const [observer] = FakeIntersectionObserver.instances;
+
+    expect(() => observer.trigger([byId('a'), byId('b')])).toThrow('boom');
+    expect(processed).toEqual(['b']);
+    expect(byId('a').hasAttribute('data-dom-once')).toBe(false);
+    expect(byId('b').getAttribute('data-dom-once')).toBe('carousel');
+  });
+
+  test('invalid arguments throw', () => {
+    expect(() =>
+      doOnceWhenVisible('carousel', '.c', null as unknown as () => void),
+    ).toThrow('callback must be a function');
+    expect(() => doOnceWhenVisible('bad id', '.c', () => {})).toThrow(
+      'Invalid once ID',
+    );
+  });
+
+  test('invalid doOnce options throw before observing', () => {
+    const invalid = [
+      [{ ttl: -5 }, 'ttl must be a positive number of milliseconds'],
+      [{ migrate: 'nope' }, 'migrate must be a function'],
+      [{ hooks: null }, 'hooks must be an object'],
+      [{ emitEvents: { marked: '' } }, 'Event names must be non-empty strings'],
+    ] as const;
+
+    for (const [options, message] of invalid) {
+      expect(() =>
+        doOnceWhenVisible('carousel', '.c', () => {}, {
+          context: context(),
+          ...(options as unknown as VisibleOnceOptions),
+        }),
+      ).toThrow(message);
+    }
+    expect(FakeIntersectionObserver.instances).toEqual([]);
+  });
+});
+
+describe('scheduled doOnce', () => {
+  let idleCallbacks: IdleRequestCallback[];
+
+  /** Runs the pending idle callback with a deadline that lasts for `elements` elements. */
+  const runIdle = async (elements: number) => {
+    let remaining = elements;
+    idleCallbacks.shift()?.({
+      didTimeout: false,
+      timeRemaining: () => --remaining,
+    });
+    await flushMutations();
+  };
+
+  const ids = (elements: Element[]) => elements.map((el) => el.id);
+
+  beforeEach(() => {
+    idleCallbacks = [];
+    vi.stubGlobal('requestIdleCallback', (callback: IdleRequestCallback) =>
+      idleCallbacks.push(callback),
+    );
+    document.body.innerHTML =
+      '<li id="a"></li><li id="b"></li><li id="c"></li><li id="d"></li><li id="e"></li>';
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('idle processes elements in batches during idle periods', async () => {
+    const processed: string[] = [];
+    const result = doOnce('row', 'li', (el) => processed.push(el.id), {
+      context: context(),
+      schedule: 'idle',
+    });
+
+    expect(processed).toEqual([]);
+    await runIdle(2);
+    expect(processed).toEqual(['a', 'b']);
+    expect(document.getElementById('b')?.getAttribute('data-dom-once')).toBe(
+      'row',
+    );
+    expect(document.getElementById('c')?.hasAttribute('data-dom-once')).toBe(
+      false,
+    );
+    await runIdle(2);
+    await runIdle(2);
+
+    expect(ids(await result)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(processed).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  test('does not double-initialize elements with an overlapping doOnce', async () => {
+    const processed: string[] = [];
+    const result = doOnce('row', 'li', (el) => processed.push(el.id), {
+      context: context(),
+      schedule: 'idle',
+    });
+
+    await runIdle(2);
+    const eager = doOnce(
+      'row',
+      'li',
+      (el) => processed.push(`eager-${el.id}`),
+      {
+        context: context(),
+      },
+    );
+    await runIdle(3);
+
+    expect(ids(eager)).toEqual(['c', 'd', 'e']);
+    expect(ids(await result)).toEqual(['a', 'b']);
+    expect(processed).toEqual(['a', 'b', 'eager-c', 'eager-d', 'eager-e']);
+  });
+
+  test('chunked yields with scheduler.yield when available', async () => {
+    const scheduler = { yield: vi.fn(() => Promise.resolve()) };
+    vi.stubGlobal('scheduler', scheduler);
+
+    const result = await doOnce('row', 'li', () => {}, {
+      context: context(),
+      schedule: 'chunked',
+    });
+
+    expect(ids(result)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(scheduler.yield).toHaveBeenCalled();
+    expect(idleCallbacks).toEqual([]);
+  });
+
+  test('falls back to setTimeout without requestIdleCallback', async () => {
+    vi.stubGlobal('requestIdleCallback', undefined);
+    const processed: string[] = [];
+
+    const result = doOnce('row', 'li', (el) => processed.push(el.id), {
+      context: context(),
+      schedule: 'idle',
+    });
+
+    expect(processed).toEqual([]);
+    expect(ids(await result)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  test('aborting the signal cancels the remaining batches', async () => {
+    const controller = new AbortController();
+    const processed: string[] = [];
+    const result = doOnce('row', 'li', (el) => processed.push(el.id), {
+      context: context(),
+      schedule: 'idle',
+      signal: controller.signal,
+    });
+    const rejection = expect(result).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+
+    await runIdle(2);
+    controller.abort();
+    await runIdle(2);
+
+    await rejection;
+    expect(processed).toEqual(['a', 'b']);
+    expect(findOnce('row', { context: context() })).toHaveLength(2);
+  });
+
+  test('an aborted signal rejects without processing', async () => {
+    const callback = vi.fn();
+
+    await expect(
+      doOnce('row', 'li', callback, {
+        context: context(),
+        schedule: 'idle',
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(callback).not.toHaveBeenCalled();
+    expect(idleCallbacks).toEqual([]);
+  });
+
+  test('continueOnError rejects with an AggregateError after all batches', async () => {
+    vi.stubGlobal('requestIdleCallback', undefined);
+    const callback = (el: Element) => {
+      if (el.id === 'b') throw new Error('boom');
+    };
+
+    await expect(
+      doOnce('row', 'li', callback, {
+        context: context(),
+        schedule: 'chunked',
+        continueOnError: true,
+      }),
+    ).rejects.toBeInstanceOf(AggregateError);
+    expect(findOnce('row', { context: context() })).toHaveLength(4);
+
+    document.body.innerHTML =
+      '<li id="a"></li><li id="b"></li><li id="c"></li>';
+    await expect(
+      doOnce('row', 'li', callback, {
+        context: context(),
+        schedule: 'chunked',
+      }),
+    ).rejects.toThrow('boom');
+    expect(findOnce('row', { context: context() })).toHaveLength(1);
+  });
+
+  test('invalid schedule rejects', async () => {
+    await expect(
+      doOnce('row', 'li', () => {}, {
+        schedule: 'soon' as unknown as 'idle',
+      }),
+    ).rejects.toThrow("schedule must be 'idle' or 'chunked'");
+  });
+});
+
+describe('AbortSignal', () => {
+  const byId = (id: string) =>
+    document.getElementById(id) as unknown as Element;
+
+  /** Returns what a function throws. */
+  const thrown = (fn: () => unknown): unknown => {
+    try {
+      fn();
+    } catch (error) {
+      return error;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = '<p id="a"></p><p id="b"></p><p id="c"></p>';
+  });
+
+  test('an aborted signal makes every function throw an AbortError', () => {
+    const signal = AbortSignal.abort();
+    const callback = vi.fn();
+    const calls = [
+      () => querySelectorOnce('x', 'p', { context: context(), signal }),
+      () => doOnce('x', 'p', callback, { context: context(), signal }),
+      () => doTimes('x', 2, 'p', callback, { context: context(), signal }),
+      () => removeOnce('x', 'p', { context: context(), signal }),
+      () => findOnce('x', { context: context(), signal }),
+      () => disposeOnce('x', { context: context(), signal }),
+      () => getOnceCount('x', byId('a'), { signal }),
+      () => getOnceIds(byId('a'), { signal }),
+      () => inspectOnce(context(), { signal }),
+      () => watchOnce('x', 'p', callback, { context: context(), signal }),
+      () => watchDetachOnce('x', callback, { context: context(), signal }),
+      () => doOnceWhenVisible('x', 'p', callback, { signal }),
+      () => attachBehaviors(context(), { signal }),
+      () => detachBehaviors(context(), 'unload', { signal }),
+    ];
+
+    for (const call of calls) {
+      expect(thrown(call)).toMatchObject({ name: 'AbortError' });
+    }
+    expect(callback).not.toHaveBeenCalled();
+    expect(byId('a').hasAttribute('data-dom-once')).toBe(false);
+  });
+
+  test('aborting during doOnce stops before the next element', () => {
+    const controller = new AbortController();
+    const processed: string[] = [];
+
+    const error = thrown(() =>
+      doOnce(
+        'x',
+        'p',
+        (el) => {
+          processed.push(el.id);
+          if (el.id === 'b') controller.abort();
+        },
+        { context: context(), signal: controller.signal },
+      ),
+    );
+
+    expect(error).toMatchObject({ name: 'AbortError' });
+    expect(processed).toEqual(['a', 'b']);
+    expect(findOnce('x', { context: context() })).toEqual([
+      byId('a'),
+      byId('b'),
+    ]);
+  });
+
+  test('throws a custom abort reason', () => {
+    const reason = new Error('view closed');
+
+    expect(
+      thrown(() =>
+        doOnce('x', 'p', () => {}, { signal: AbortSignal.abort(reason) }),
+      ),
+    ).toBe(reason);
+  });
+
+  test('doOnceAsync rejects and releases its claims when aborted', async () => {
+    const controller = new AbortController();
+    const processed: string[] = [];
+
+    await expect(
+      doOnceAsync(
+        'x',
+        'p',
+        async (el) => {
+          processed.push(el.id);
+          controller.abort();
+        },
+        { context: context(), signal: controller.signal },
+      ),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(processed).toEqual(['a']);
+
+    const rest = await doOnceAsync('x', 'p', async () => {}, {
+      context: context(),
+    });
+    expect(rest).toEqual([byId('b'), byId('c')]);
+  });
+
+  test('disposeOnAbort disposes and unmarks elements processed under the signal', () => {
+    const controller = new AbortController();
+    const disposed: string[] = [];
+    const dispose = (el: Element) => () => disposed.push(el.id);
+
+    doOnce('x', '#a, #b', dispose, {
+      context: context(),
+      signal: controller.signal,
+      disposeOnAbort: true,
+    });
+    doOnce('y', '#c', dispose, {
+      context: context(),
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(disposed).toEqual(['a', 'b']);
+    expect(findOnce('x', { context: context() })).toEqual([]);
+    expect(findOnce('y', { context: context() })).toEqual([byId('c')]);
+  });
+
+  test('disposeOnAbort adds one abort listener per signal', () => {
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, 'addEventListener');
+    const disposed: string[] = [];
+    const options = {
+      context: context(),
+      signal: controller.signal,
+      disposeOnAbort: true,
+    };
+
+    for (let i = 0; i < 5; i++) {
+      doOnce('x', 'p', (el) => () => disposed.push(el.id), options);
+      doOnce('z', '#missing', () => {}, options);
+    }
+    doOnce('y', '#a', (el) => () => disposed.push(`y-${el.id}`), options);
+    controller.abort();
+
+    expect(addListener).toHaveBeenCalledTimes(1);
+    expect(disposed).toEqual(['a', 'b', 'c', 'y-a']);
+  });
+
+  test('aborting disconnects watchOnce', async () => {
+    const controller = new AbortController();
+    const processed: string[] = [];
+    watchOnce('x', 'p', (el) => processed.push(el.id), {
+      context: context(),
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    document.body.insertAdjacentHTML('beforeend', '<p id="d"></p>');
+    await flushMutations();
+
+    expect(processed).toEqual(['a', 'b', 'c']);
+  });
+
+  test('watchOnce with disposeOnAbort disposes elements from later batches', async () => {
+    const controller = new AbortController();
+    const disposed: string[] = [];
+    watchOnce('x', 'p', (el) => () => disposed.push(el.id), {
+      context: context(),
+      signal: controller.signal,
+      disposeOnAbort: true,
+    });
+
+    document.body.insertAdjacentHTML('beforeend', '<p id="d"></p>');
+    await flushMutations();
+    controller.abort();
+
+    expect(disposed).toEqual(['a', 'b', 'c', 'd']);
+    expect(findOnce('x', { context: context() })).toEqual([]);
+  });
+
+  test('aborting during attachBehaviors stops the remaining behaviors', () => {
+    const controller = new AbortController();
+    const attached: string[] = [];
+    defineBehavior('abort-first', {
+      selector: '#a',
+      attach: () => {
+        attached.push('first');
+        controller.abort();
+      },
+    });
+    defineBehavior('abort-second', {
+      selector: '#b',
+      attach: () => {
+        attached.push('second');
+      },
+    });
+
+    try {
+      expect(
+        thrown(() => attachBehaviors(context(), { signal: controller.signal })),
+      ).toMatchObject({ name: 'AbortError' });
+      expect(attached).toEqual(['first']);
+    } finally {
+      removeBehavior('abort-first');
+      removeBehavior('abort-second');
+    }
+  });
+
+  test('createOnce defaults can carry a signal', () => {
+    const controller = new AbortController();
+    const once = createOnce({ context: context(), signal: controller.signal });
+
+    expect(once.doOnce('x', 'p', () => {})).toHaveLength(3);
+    controller.abort();
+    expect(thrown(() => once.findOnce('x'))).toMatchObject({
+      name: 'AbortError',
+    });
+  });
+
+  test('invalid signal throws', () => {
+    expect(() =>
+      doOnce('x', 'p', () => {}, {
+        signal: {} as unknown as AbortSignal,
+      }),
+    ).toThrow('signal must be an AbortSignal');
+  });
+});
+
+describe('onOnce', () => {
+  const byId = (id: string) =>
+    document.getElementById(id) as unknown as Element;
+  const fire = (id: string, type = 'click', bubbles = true) =>
+    byId(id).dispatchEvent(
+      new window.Event(type, { bubbles }) as unknown as Event,
+    );
+
+  /** Listeners added by the current test, removed after it. */
+  let disposers: (() => void)[];
+  const listen = (...args: Parameters<typeof onOnce>) => {
+    const off = onOnce(...args);
+    disposers.push(off);
+    return off;
+  };
+
+  afterEach(() => {
+    for (const off of disposers) off();
+  });
+
+  beforeEach(() => {
+    disposers = [];
+    document.body.innerHTML =
+      '<div class="editor" id="a"><span id="a-inner"></span></div><div class="editor" id="b"></div><div id="plain"></div>';
+  });
+
+  test('runs the handler on the first event per matching element', () => {
+    const handled: [string, string][] = [];
+    listen(
+      'editor',
+      'click',
+      '.editor',
+      (el, event) => handled.push([el.id, event.type]),
+      { context: context() },
+    );
+
+    fire('a');
+    fire('a');
+    fire('b');
+    fire('plain');
+
+    expect(handled).toEqual([
+      ['a', 'click'],
+      ['b', 'click'],
+    ]);
+    expect(findOnce('editor', { context: context() })).toEqual([
+      byId('a'),
+      byId('b'),
+    ]);
+  });
+
+  test('handles events from descendants and non-bubbling events', () => {
+    const handled: string[] = [];
+    listen('editor', 'focus', '.editor', (el) => handled.push(el.id), {
+      context: context(),
+    });
+
+    fire('a-inner', 'focus', false);
+    fire('b', 'focus', false);
+
+    expect(handled).toEqual(['a', 'b']);
+  });
+
+  test('handles elements inserted after the listener was added', () => {
+    const handled: string[] = [];
+    listen('editor', 'click', '.editor', (el) => handled.push(el.id), {
+      context: context(),
+    });
+
+    document.body.insertAdjacentHTML(
+      'beforeend',
+      '<div class="editor" id="late"></div>',
+    );
+    fire('late');
+
+    expect(handled).toEqual(['late']);
+  });
+
+  test('skips elements already marked by doOnce', () => {
+    const handled: string[] = [];
+    doOnce('editor', '#a', () => {}, { context: context() });
+    listen('editor', 'click', '.editor', (el) => handled.push(el.id), {
+      context: context(),
+    });
+
+    fire('a');
+
+    expect(handled).toEqual([]);
+  });
+
+  test('ignores the context element and elements outside it', () => {
+    document.body.innerHTML =
+      '<div class="editor" id="outer"><div class="editor" id="inner"></div></div>';
+    const handled: string[] = [];
+    listen('editor', 'click', '.editor', (el) => handled.push(el.id), {
+      context: byId('inner'),
+    });
+
+    fire('inner');
+    fire('outer');
+
+    expect(handled).toEqual([]);
+  });
+
+  test('async handlers mark the element once they resolve', async () => {
+    let resolve!: () => void;
+    const handler = vi.fn(() => new Promise<void>((done) => (resolve = done)));
+    listen('editor', 'click', '.editor', handler, { context: context() });
+
+    fire('a');
+    fire('a');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(byId('a').hasAttribute('data-dom-once')).toBe(false);
+
+    resolve();
+    await Promise.resolve();
+    await Promise.resolve();
+    fire('a');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(byId('a').getAttribute('data-dom-once')).toBe('editor');
+  });
+
+  test('failed handlers leave the element unmarked and report the error', async () => {
+    const reported: unknown[] = [];
+    vi.stubGlobal('queueMicrotask', (task: () => void) => {
+      try {
+        task();
+      } catch (error) {
+        reported.push(error);
+      }
+    });
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('async'))
+      .mockImplementationOnce(() => {
+        throw new Error('sync');
+      })
+      .mockResolvedValue(undefined);
+    listen('editor', 'click', '.editor', handler, { context: context() });
+
+    try {
+      fire('a');
+      await vi.waitFor(() => expect(reported).toHaveLength(1));
+      fire('a');
+      await vi.waitFor(() => expect(reported).toHaveLength(2));
+      fire('a');
+      await vi.waitFor(() =>
+        expect(byId('a').getAttribute('data-dom-once')).toBe('editor'),
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(reported).toEqual([new Error('async'), new Error('sync')]);
+  });
+
+  test('the returned disposer removes the listener', () => {
+    const handler = vi.fn();
+    const off = listen('editor', 'click', '.editor', handler, {
+      context: context(),
+    });
+
+    off();
+    fire('a');
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('aborting the signal removes the listener', () => {
+    const controller = new AbortController();
+    const handler = vi.fn();
+    listen('editor', 'click', '.editor', handler, {
+      context: context(),
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    fire('a');
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('invalid arguments throw', () => {
+    expect(() =>
+      onOnce('editor', '', '.editor', () => {}, { context: context() }),
+    ).toThrow('eventType must be a non-empty string');
+    expect(() =>
+      onOnce('editor', 'click', '.editor', null as unknown as () => void, {
+        context: context(),
+      }),
+    ).toThrow('handler must be a function');
+    expect(() =>
+      onOnce('editor', 'click', '[', () => {}, { context: context() }),
+    ).toThrow();
+    expect(() => onOnce('bad id', 'click', '.editor', () => {})).toThrow(
+      'Invalid once ID',
+    );
+  });
+});
+
+describe('emitEvents', () => {
+  const byId = (id: string) =>
+    document.getElementById(id) as unknown as Element;
+
+  /** Records events of a type that bubble up to the document during a test. */
+  let seen: { type: string; target: string; detail: unknown }[];
+  const record = (event: Event) =>
+    seen.push({
+      type: event.type,
+      target: (event.target as Element).id,
+      detail: (event as CustomEvent).detail,
+    });
+  const types = [
+    'dom-once:marked',
+    'dom-once:unmarked',
+    'app:ready',
+    'app:gone',
+  ];
+
+  beforeEach(() => {
+    seen = [];
+    for (const type of types) context().addEventListener(type, record);
+    document.body.innerHTML =
+      '<p id="a"></p><p id="b"></p><p id="c" data-dom-once="x"></p>';
+  });
+
+  afterEach(() => {
+    for (const type of types) context().removeEventListener(type, record);
+  });
+
+  test('doOnce dispatches dom-once:marked on each newly marked element', () => {
+    doOnce('x', 'p', () => {}, { context: context(), emitEvents: true });
+
+    expect(seen).toEqual([
+      {
+        type: 'dom-once:marked',
+        target: 'a',
+        detail: { onceId: 'x', attribute: 'data-dom-once' },
+      },
+      {
+        type: 'dom-once:marked',
+        target: 'b',
+        detail: { onceId: 'x', attribute: 'data-dom-once' },
+      },
+    ]);
+  });
+
+  test('the event fires after the element is marked', () => {
+    const marked: (string | null)[] = [];
+    const listener = (event: CustomEvent) =>
+      marked.push((event.target as Element).getAttribute('data-dom-once'));
+    context().addEventListener('dom-once:marked', listener);
+
+    try {
+      querySelectorOnce('x', '#a', { context: context(), emitEvents: true });
+    } finally {
+      context().removeEventListener('dom-once:marked', listener);
+    }
+
+    expect(marked).toEqual(['x']);
+    expect(seen.map((event) => event.target)).toEqual(['a']);
+  });
+
+  test('doOnceAsync dispatches dom-once:marked', async () => {
+    await doOnceAsync('x', '#a', async () => {}, {
+      context: context(),
+      emitEvents: true,
+    });
+
+    expect(seen.map((event) => [event.type, event.target])).toEqual([
+      ['dom-once:marked', 'a'],
+    ]);
+  });
+
+  test('detail.attribute names the attribute of the store', () => {
+    const attributes: string[] = [];
+    const listener = (event: CustomEvent<{ attribute: string }>) =>
+      attributes.push(event.detail.attribute);
+    byId('a').addEventListener('dom-once:marked', listener);
+
+    try {
+      doOnce('x', '#a', () => {}, {
+        context: context(),
+        store: attributeStore('data-x'),
+        emitEvents: true,
+      });
+    } finally {
+      byId('a').removeEventListener('dom-once:marked', listener);
+    }
+
+    expect(attributes).toEqual(['data-x']);
+    expect(byId('a').getAttribute('data-x')).toBe('x');
+  });
+
+  test('doTimes dispatches dom-once:marked on the first run only', () => {
+    doTimes('x', 3, '#a', () => {}, { context: context(), emitEvents: true });
+    doTimes('x', 3, '#a', () => {}, { context: context(), emitEvents: true });
+
+    expect(seen).toEqual([
+      {
+        type: 'dom-once:marked',
+        target: 'a',
+        detail: { onceId: 'x', attribute: 'data-dom-once' },
+      },
+    ]);
+  });
+
+  test('removeOnce and disposeOnce dispatch dom-once:unmarked', () => {
+    removeOnce('x', 'p', { context: context(), emitEvents: true });
+    doOnce('y', '#a', () => {}, { context: context() });
+    disposeOnce('y', { context: context(), emitEvents: true });
+
+    expect(seen).toEqual([
+      {
+        type: 'dom-once:unmarked',
+        target: 'c',
+        detail: { onceId: 'x', attribute: 'data-dom-once' },
+      },
+      {
+        type: 'dom-once:unmarked',
+        target: 'a',
+        detail: { onceId: 'y', attribute: 'data-dom-once' },
+      },
+    ]);
+  });
+
+  test('does not dispatch events unless enabled', () => {
+    doOnce('x', 'p', () => {}, { context: context() });
+    removeOnce('x', 'p', { context: context() });
+
+    expect(seen).toEqual([]);
+  });
+
+  test('event names are configurable', () => {
+    const emitEvents = { marked: 'app:ready', unmarked: 'app:gone' };
+    doOnce('x', '#a', () => {}, {
+      context: context(),
+      onceAttribute: 'data-app',
+      emitEvents,
+    });
+    removeOnce('x', '#a', {
+      context: context(),
+      onceAttribute: 'data-app',
+      emitEvents,
+    });
+
+    expect(seen).toEqual([
+      {
+        type: 'app:ready',
+        target: 'a',
+        detail: { onceId: 'x', attribute: 'data-app' },
+      },
+      {
+        type: 'app:gone',
+        target: 'a',
+        detail: { onceId: 'x', attribute: 'data-app' },
+      },
+    ]);
+  });
+
+  test('invalid emitEvents throws', () => {
+    expect(() =>
+      doOnce('x', 'p', () => {}, {
+        emitEvents: 'yes' as unknown as boolean,
+      }),
+    ).toThrow('emitEvents must be a boolean or an object');
+    expect(() =>
+      doOnce('x', 'p', () => {}, { emitEvents: { marked: '' } }),
+    ).toThrow('Event names must be non-empty strings');
+    expect(byId('a').hasAttribute('data-dom-once')).toBe(false);
+  });
+});